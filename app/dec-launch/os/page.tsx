@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+import OSDesktop from '@/components/OSDesktop';
+
+export const metadata: Metadata = {
+  title: 'OS | Mino Design Influences',
+};
+
+export default function OSPage() {
+  return (
+    <main className="h-screen w-screen p-3 bg-gradient-to-br from-harbor to-abyss">
+      <OSDesktop variant="fullscreen" className="h-full" />
+    </main>
+  );
+}
@@ -0,0 +1,10 @@
+import type { Metadata } from 'next';
+import OS2Console from '@/components/OS2Console';
+
+export const metadata: Metadata = {
+  title: 'OS2 | Mino Design Influences',
+};
+
+export default function OS2Page() {
+  return <OS2Console variant="fullscreen" className="h-screen w-screen" />;
+}
@@ -0,0 +1,10 @@
+import type { Metadata } from 'next';
+import DeckExport from '@/components/DeckExport';
+
+export const metadata: Metadata = {
+  title: 'Export | Mino Design Influences',
+};
+
+export default function ExportPage() {
+  return <DeckExport />;
+}
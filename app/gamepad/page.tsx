@@ -0,0 +1,10 @@
+import type { Metadata } from 'next';
+import GamepadHarness from '@/components/GamepadHarness';
+
+export const metadata: Metadata = {
+  title: 'Gamepad Harness | Mino Design Influences',
+};
+
+export default function GamepadPage() {
+  return <GamepadHarness />;
+}
@@ -0,0 +1,10 @@
+import type { Metadata } from 'next';
+import Handout from '@/components/Handout';
+
+export const metadata: Metadata = {
+  title: 'Handout | Mino Design Influences',
+};
+
+export default function HandoutPage() {
+  return <Handout />;
+}
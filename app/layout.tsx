@@ -1,4 +1,7 @@
 import type { Metadata } from 'next'
+import { THEME_BOOT_SCRIPT, THEME_STYLESHEET } from '@/lib/theme'
+import { LOCALE_BOOT_SCRIPT } from '@/lib/i18n'
+import MotionPolicy from '@/components/MotionPolicy'
 import './globals.css'
 
 export const metadata: Metadata = {
@@ -12,8 +15,16 @@ export default function RootLayout({
   children: React.ReactNode
 }) {
   return (
-    <html lang="en">
-      <body>{children}</body>
+    // The boot scripts set data-theme and lang before React hydrates
+    <html lang="en" suppressHydrationWarning>
+      <head>
+        <style dangerouslySetInnerHTML={{ __html: THEME_STYLESHEET }} />
+        <script dangerouslySetInnerHTML={{ __html: THEME_BOOT_SCRIPT }} />
+        <script dangerouslySetInnerHTML={{ __html: LOCALE_BOOT_SCRIPT }} />
+      </head>
+      <body>
+        <MotionPolicy>{children}</MotionPolicy>
+      </body>
     </html>
   )
 }
@@ -0,0 +1,10 @@
+import type { Metadata } from 'next';
+import PresenterView from '@/components/PresenterView';
+
+export const metadata: Metadata = {
+  title: 'Presenter | Mino Design Influences',
+};
+
+export default function PresenterPage() {
+  return <PresenterView />;
+}
@@ -0,0 +1,23 @@
+import { notFound } from 'next/navigation';
+import DesignInfluencesPresentation from '@/components/DesignInfluencesPresentation';
+import { SLIDES, isSlideId } from '@/lib/slides';
+
+// Only ids in SLIDES are routable; anything else 404s.
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return SLIDES.map((slideId) => ({ slideId }));
+}
+
+export default async function SlidePage({
+  params,
+}: {
+  params: Promise<{ slideId: string }>
+}) {
+  const { slideId } = await params;
+  if (!isSlideId(slideId)) {
+    notFound();
+  }
+
+  return <DesignInfluencesPresentation />;
+}
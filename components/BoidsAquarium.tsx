@@ -0,0 +1,198 @@
+'use client';
+
+import React, { useEffect, useId, useRef } from 'react';
+import { createFlock, stepFlock, DEFAULT_BOIDS_PARAMS, type BoidsParams } from '@/lib/boids';
+import { createNoise2D } from '@/lib/noise';
+import { isMotionFrozen, useMotionReduced } from '@/lib/motion';
+import { colors, themeColor } from '@/lib/tokens';
+import { useLocale } from '@/lib/useLocale';
+
+// ============================================
+// BOIDS AQUARIUM
+// Canvas renderer for lib/boids. Params are read every frame, so
+// sliders change the school's behavior without restarting it; a
+// still frame is settled again from the seed when they change.
+// Background by default; give it a title when it is the subject.
+// ============================================
+
+// Steps to pre-run when motion is frozen, so exports show a school
+// that has already organized itself rather than the random start.
+const FROZEN_WARMUP_STEPS = 240;
+
+export default function BoidsAquarium({
+  count = 40,
+  params = DEFAULT_BOIDS_PARAMS,
+  color = colors.pine,
+  size = 6,
+  seed = 1,
+  title,
+  description,
+  className = '',
+}: {
+  count?: number;
+  params?: BoidsParams;
+  color?: string;
+  size?: number;
+  seed?: number;
+  // For assistive tech; without a title the canvas is hidden from it
+  title?: string;
+  description?: string;
+  className?: string;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const descriptionId = useId();
+  const paramsRef = useRef(params);
+  // Set while motion is frozen: re-runs the warm-up and redraws
+  const settleRef = useRef<() => void>();
+  const reduced = useMotionReduced();
+
+  useEffect(() => {
+    paramsRef.current = params;
+    settleRef.current?.();
+  }, [params]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const bounds = { width: canvas.clientWidth, height: canvas.clientHeight };
+    let flock = createFlock(count, bounds, seed);
+    const noise = createNoise2D(seed);
+
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1;
+      bounds.width = canvas.clientWidth;
+      bounds.height = canvas.clientHeight;
+      canvas.width = bounds.width * dpr;
+      canvas.height = bounds.height * dpr;
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      // Sizing the canvas clears it; a still frame has no next tick
+      settleRef.current?.();
+    };
+
+    const draw = () => {
+      ctx.clearRect(0, 0, bounds.width, bounds.height);
+      ctx.fillStyle = color;
+      for (const boid of flock) {
+        const angle = Math.atan2(boid.vy, boid.vx);
+        ctx.save();
+        ctx.translate(boid.x, boid.y);
+        ctx.rotate(angle);
+        ctx.beginPath();
+        ctx.moveTo(size * 1.4, 0);
+        ctx.lineTo(-size, size * 0.6);
+        ctx.lineTo(-size, -size * 0.6);
+        ctx.closePath();
+        ctx.fill();
+        ctx.restore();
+      }
+    };
+
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+
+    // Captured pages and reduced motion get one still frame of the school
+    if (isMotionFrozen() || reduced) {
+      const settle = () => {
+        flock = createFlock(count, bounds, seed);
+        for (let i = 0; i < FROZEN_WARMUP_STEPS; i++) {
+          stepFlock(flock, paramsRef.current, bounds, noise, i * 16);
+        }
+        draw();
+      };
+      settle();
+      settleRef.current = settle;
+      return () => {
+        settleRef.current = undefined;
+        observer.disconnect();
+      };
+    }
+
+    let frameId = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      // Clamp so a backgrounded tab doesn't fling the school on return
+      const dt = Math.min((now - last) / (1000 / 60), 3);
+      last = now;
+      stepFlock(flock, paramsRef.current, bounds, noise, now, dt);
+      draw();
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      observer.disconnect();
+    };
+  }, [count, color, size, seed, reduced]);
+
+  if (!title) return <canvas ref={canvasRef} className={`block w-full h-full ${className}`} aria-hidden="true" />;
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        className={`block w-full h-full ${className}`}
+        role="img"
+        aria-label={title}
+        aria-describedby={description ? descriptionId : undefined}
+      />
+      {description && <p id={descriptionId} className="sr-only">{description}</p>}
+    </>
+  );
+}
+
+// ============================================
+// BOIDS CONTROLS
+// Live sliders for the three rule weights and the neighbor radius.
+// ============================================
+
+const CONTROLS: {
+  key: keyof Pick<BoidsParams, 'separation' | 'alignment' | 'cohesion' | 'neighborRadius'>;
+  color: string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  { key: 'separation', color: colors.tanaka, min: 0, max: 4, step: 0.1 },
+  { key: 'alignment', color: colors.ps4, min: 0, max: 4, step: 0.1 },
+  { key: 'cohesion', color: colors.pine, min: 0, max: 4, step: 0.1 },
+  { key: 'neighborRadius', color: themeColor('fg'), min: 10, max: 100, step: 1 },
+];
+
+export function BoidsControls({
+  params,
+  onChange,
+}: {
+  params: BoidsParams;
+  onChange: (params: BoidsParams) => void;
+}) {
+  const labels = useLocale().messages.controls.boids;
+
+  return (
+    <div className="space-y-2">
+      {CONTROLS.map((control) => (
+        <label key={control.key} className="flex items-center gap-3 text-xs">
+          <span className="w-20 flex-shrink-0" style={{ color: control.color }}>
+            {labels[control.key]}
+          </span>
+          <input
+            type="range"
+            min={control.min}
+            max={control.max}
+            step={control.step}
+            value={params[control.key]}
+            onChange={(e) => onChange({ ...params, [control.key]: Number(e.target.value) })}
+            className="flex-1"
+            style={{ accentColor: control.color }}
+          />
+          <span className="w-8 text-right text-fg/50 tabular-nums">
+            {params[control.key]}
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+}
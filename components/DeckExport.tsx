@@ -0,0 +1,46 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { SLIDE_REGISTRY } from '@/lib/slides';
+import { SlideContent } from '@/components/SlideContent';
+import { freezeMotion } from '@/lib/motion';
+import { themeColor } from '@/lib/tokens';
+
+// ============================================
+// DECK EXPORT
+// Every slide stacked at 1280×720 with animations resolved, for
+// scripts/export-deck.mjs to print to PDF and screenshot to PNG.
+// ============================================
+
+const EXPORT_WIDTH = 1280;
+const EXPORT_HEIGHT = 720;
+
+export default function DeckExport() {
+  freezeMotion();
+
+  const [ready, setReady] = useState(false);
+
+  // Give framer-motion a couple of frames to flush the instant
+  // animations before telling the export script to capture.
+  useEffect(() => {
+    let frameId = requestAnimationFrame(() => {
+      frameId = requestAnimationFrame(() => setReady(true));
+    });
+    return () => cancelAnimationFrame(frameId);
+  }, []);
+
+  return (
+    <div data-deck-export data-export-ready={ready ? 'true' : undefined}>
+      {SLIDE_REGISTRY.map((slide) => (
+        <div
+          key={slide.id}
+          data-slide-id={slide.id}
+          className="relative overflow-hidden break-after-page"
+          style={{ width: EXPORT_WIDTH, height: EXPORT_HEIGHT, backgroundColor: themeColor(slide.surface) }}
+        >
+          <SlideContent slideId={slide.id} />
+        </div>
+      ))}
+    </div>
+  );
+}
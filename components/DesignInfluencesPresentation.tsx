@@ -0,0 +1,531 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { usePathname } from 'next/navigation';
+import { motion, AnimatePresence, useDragControls, type PanInfo } from 'framer-motion';
+import { ArrowRight, ArrowLeft, Presentation, Keyboard, Monitor, Sun, Moon, Rabbit, Turtle } from 'lucide-react';
+import { SECTIONS, SLIDES, getSectionSlides, getSlide, slidePath, slideIdFromPath, type SlideId } from '@/lib/slides';
+import { useDeckSync } from '@/lib/deckSync';
+import { useGamepadButtons, isGamepadScopeFocused } from '@/lib/gamepad';
+import { commandForKey, isKeyForControl } from '@/lib/shortcuts';
+import { useTheme } from '@/lib/useTheme';
+import { useTimeOfDay, dayPaletteVariables } from '@/lib/timeOfDay';
+import { playCue, updateAudioSettings, useAudioSettings } from '@/lib/audio';
+import { setReducedMotionForced, useMotionReduced, useReducedMotionForced } from '@/lib/motion';
+import { format } from '@/lib/i18n';
+import { cycleAnnotation, cycleLocale, useLocale } from '@/lib/useLocale';
+import { SlideContent } from '@/components/SlideContent';
+import SlideOverview from '@/components/SlideOverview';
+import ShortcutHelp from '@/components/ShortcutHelp';
+import { FragmentProvider, ALL_FRAGMENTS } from '@/components/Fragment';
+import VirtualGamepad from '@/components/VirtualGamepad';
+import TimeScrubber from '@/components/TimeScrubber';
+import SoundControl from '@/components/SoundControl';
+import LanguageControl from '@/components/LanguageControl';
+import { durations, themeColor } from '@/lib/tokens';
+
+// ============================================
+// PRESENTATION DECK
+// The URL is the source of truth for the current slide, so
+// reloads, shared links and browser back/forward all work.
+// ============================================
+
+// Touch gestures: a swipe past either threshold changes slide; a tap
+// in the outer fifth of the screen steps toward that edge.
+const SWIPE_DISTANCE = 80;
+const SWIPE_VELOCITY = 500;
+const SWIPE_ELASTIC = 0.5;
+// Nothing beyond the first and last slide, so the pull barely gives
+const SWIPE_ELASTIC_AT_END = 0.08;
+const TAP_ZONE = 0.2;
+
+// Interactive slide content keeps its own pointer gestures
+const NO_SWIPE_SELECTOR = 'input, button, a, [data-no-swipe]';
+
+function isSwipeIgnored(target: EventTarget | null) {
+  return target instanceof Element && target.closest(NO_SWIPE_SELECTOR) !== null;
+}
+
+// A typed slide number is dropped if Enter doesn't follow in time
+const JUMP_TIMEOUT_MS = 2000;
+
+function toggleFullscreen() {
+  if (document.fullscreenElement) {
+    document.exitFullscreen();
+  } else {
+    // Rejected inside iframes and when the browser denies it
+    document.documentElement.requestFullscreen().catch(() => {});
+  }
+}
+
+const THEME_ICONS = { system: Monitor, light: Sun, dark: Moon };
+
+export default function DesignInfluencesPresentation() {
+  const pathname = usePathname();
+  const slideId = slideIdFromPath(pathname) ?? SLIDES[0];
+  const currentSlide = SLIDES.indexOf(slideId);
+  const slide = getSlide(slideId);
+
+  const [previousSlide, setPreviousSlide] = useState(currentSlide);
+  const [direction, setDirection] = useState(0);
+  const [overviewOpen, setOverviewOpen] = useState(false);
+  const [fragmentStep, setFragmentStep] = useState(0);
+  const [fragmentCounts, setFragmentCounts] = useState<Partial<Record<SlideId, number>>>({});
+  const [helpOpen, setHelpOpen] = useState(false);
+  const [blackout, setBlackout] = useState(false);
+  const [jumpBuffer, setJumpBuffer] = useState('');
+  const [virtualGamepad, setVirtualGamepad] = useState(false);
+  const { preference: themePreference, cyclePreference: cycleTheme } = useTheme();
+  const ThemeIcon = THEME_ICONS[themePreference];
+  const [scrubberOpen, setScrubberOpen] = useState(false);
+  const { palette } = useTimeOfDay();
+  const { muted } = useAudioSettings();
+  const reducedMotion = useMotionReduced();
+  const reducedMotionForced = useReducedMotionForced();
+  const { messages } = useLocale();
+  const themeLabel = format(messages.deck.theme, { preference: messages.deck.themes[themePreference] });
+  const swipeControls = useDragControls();
+
+  // Derive the animation direction whenever the route changes,
+  // whether from our own navigation or from back/forward. Arriving
+  // forwards starts a slide unbuilt; arriving backwards, fully built.
+  if (previousSlide !== currentSlide) {
+    const forwards = currentSlide > previousSlide;
+    setDirection(forwards ? 1 : -1);
+    setFragmentStep(forwards ? 0 : ALL_FRAGMENTS);
+    setPreviousSlide(currentSlide);
+  }
+
+  // The cue follows the route, so back/forward and presenter
+  // navigation sound the same as the arrow keys. Focus follows it
+  // too, once the arriving slide mounts (see attachSlide).
+  const cuedSlideRef = useRef(currentSlide);
+  const focusOnArrival = useRef(false);
+  useEffect(() => {
+    if (cuedSlideRef.current === currentSlide) return;
+    cuedSlideRef.current = currentSlide;
+    focusOnArrival.current = true;
+    playCue(direction > 0 ? 'slide-next' : 'slide-prev');
+  }, [currentSlide, direction]);
+
+  // The slide mounts after the previous one has animated out, so
+  // Tab and the screen reader carry on from the new slide
+  const attachSlide = useCallback((node: HTMLDivElement | null) => {
+    if (!node || !focusOnArrival.current) return;
+    focusOnArrival.current = false;
+    node.focus({ preventScroll: true });
+  }, []);
+
+  const fragmentCount = fragmentCounts[slideId] ?? 0;
+  // ALL_FRAGMENTS is open-ended; this is the step actually on screen
+  const revealedFragments = Math.min(fragmentStep, fragmentCount);
+
+  const goToSlide = useCallback((index: number) => {
+    if (index >= 0 && index < SLIDES.length && index !== currentSlide) {
+      window.history.pushState(null, '', slidePath(SLIDES[index]));
+    }
+  }, [currentSlide]);
+
+  // Build steps come first: only once every fragment is showing
+  // does "next" leave the slide, and "previous" rewinds them.
+  const nextSlide = useCallback(() => {
+    if (revealedFragments < fragmentCount) {
+      setFragmentStep(revealedFragments + 1);
+      playCue('fragment');
+    } else {
+      goToSlide(currentSlide + 1);
+    }
+  }, [currentSlide, goToSlide, revealedFragments, fragmentCount]);
+
+  const prevSlide = useCallback(() => {
+    if (revealedFragments > 0) {
+      setFragmentStep(revealedFragments - 1);
+    } else {
+      goToSlide(currentSlide - 1);
+    }
+  }, [currentSlide, goToSlide, revealedFragments]);
+
+  const setSlideFragmentCount = useCallback((id: SlideId, count: number) => {
+    setFragmentCounts((prev) => (prev[id] === count ? prev : { ...prev, [id]: count }));
+  }, []);
+
+  const selectFromOverview = useCallback((index: number) => {
+    setOverviewOpen(false);
+    goToSlide(index);
+  }, [goToSlide]);
+
+  const closeOverview = useCallback(() => setOverviewOpen(false), []);
+  const closeHelp = useCallback(() => setHelpOpen(false), []);
+
+  const openPresenterView = useCallback(() => {
+    window.open('/presenter', 'mino-presenter', 'width=1280,height=800');
+  }, []);
+
+  // Presenter window sync
+  const postSync = useDeckSync((message) => {
+    if (message.type === 'navigate') {
+      goToSlide(SLIDES.indexOf(message.slideId));
+    } else if (message.type === 'step') {
+      if (message.direction === 'next') nextSlide();
+      else prevSlide();
+    } else if (message.type === 'request-state') {
+      postSync({ type: 'state', slideId, step: revealedFragments, steps: fragmentCount });
+    }
+  });
+
+  useEffect(() => {
+    postSync({ type: 'state', slideId, step: revealedFragments, steps: fragmentCount });
+  }, [slideId, revealedFragments, fragmentCount, postSync]);
+
+  // Keyboard shortcuts - bindings live in lib/shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // The overview grid handles its own keys while open
+      if (overviewOpen) return;
+      // Controls inside slides keep their own keys
+      if (e.defaultPrevented || isKeyForControl(e.target, e.key)) return;
+      // Leave browser shortcuts (Cmd+F, Ctrl+P) alone
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+      const command = commandForKey(e.key);
+
+      // Escape dismisses whatever covers the slide before opening anything
+      if (e.key === 'Escape' && (helpOpen || blackout)) {
+        e.preventDefault();
+        setHelpOpen(false);
+        setBlackout(false);
+        return;
+      }
+      if (helpOpen && command !== 'help') return;
+      if (blackout && command !== 'blackout') return;
+      // Without a typed number, Enter still activates focused buttons
+      if (!command || (command === 'jump' && !jumpBuffer)) return;
+
+      e.preventDefault();
+      if (command !== 'digit') setJumpBuffer('');
+
+      switch (command) {
+        case 'next':
+          nextSlide();
+          break;
+        case 'prev':
+          prevSlide();
+          break;
+        case 'first':
+          goToSlide(0);
+          break;
+        case 'last':
+          goToSlide(SLIDES.length - 1);
+          break;
+        case 'digit':
+          setJumpBuffer((prev) => (prev + e.key).slice(-String(SLIDES.length).length));
+          break;
+        case 'jump':
+          goToSlide(Number(jumpBuffer) - 1);
+          break;
+        case 'overview':
+          setOverviewOpen(true);
+          break;
+        case 'presenter':
+          openPresenterView();
+          break;
+        case 'fullscreen':
+          toggleFullscreen();
+          break;
+        case 'blackout':
+          setBlackout((prev) => !prev);
+          break;
+        case 'theme':
+          cycleTheme();
+          break;
+        case 'clock':
+          setScrubberOpen((prev) => !prev);
+          break;
+        case 'mute':
+          updateAudioSettings({ muted: !muted });
+          break;
+        case 'motion':
+          setReducedMotionForced(!reducedMotionForced);
+          break;
+        case 'language':
+          cycleLocale();
+          break;
+        case 'readings':
+          cycleAnnotation();
+          break;
+        case 'help':
+          setHelpOpen((prev) => !prev);
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [nextSlide, prevSlide, goToSlide, openPresenterView, cycleTheme, muted, reducedMotionForced, overviewOpen, helpOpen, blackout, jumpBuffer]);
+
+  useEffect(() => {
+    if (!jumpBuffer) return;
+    const timeout = setTimeout(() => setJumpBuffer(''), JUMP_TIMEOUT_MS);
+    return () => clearTimeout(timeout);
+  }, [jumpBuffer]);
+
+  // Controller navigation: D-pad or shoulder buttons
+  useGamepadButtons((button) => {
+    // A focused console prototype takes the pad for itself
+    if (overviewOpen || helpOpen || blackout || isGamepadScopeFocused()) return;
+
+    if (button === 'right' || button === 'r1') {
+      nextSlide();
+    } else if (button === 'left' || button === 'l1') {
+      prevSlide();
+    }
+  });
+
+  // ?gamepad puts an on-screen pad over the deck for testing without
+  // hardware. Read once: in-deck navigation drops the query string.
+  useEffect(() => {
+    setVirtualGamepad(new URLSearchParams(window.location.search).has('gamepad'));
+  }, []);
+
+  // Touch only: with a mouse, dragging across a slide selects text
+  const startSwipe = (e: React.PointerEvent) => {
+    if (e.pointerType === 'mouse' || isSwipeIgnored(e.target)) return;
+    swipeControls.start(e);
+  };
+
+  const endSwipe = (_: unknown, info: PanInfo) => {
+    if (info.offset.x < -SWIPE_DISTANCE || info.velocity.x < -SWIPE_VELOCITY) {
+      nextSlide();
+    } else if (info.offset.x > SWIPE_DISTANCE || info.velocity.x > SWIPE_VELOCITY) {
+      prevSlide();
+    }
+  };
+
+  const tapEdge = (e: MouseEvent | TouchEvent | PointerEvent, info: { point: { x: number } }) => {
+    if ((e instanceof PointerEvent && e.pointerType === 'mouse') || isSwipeIgnored(e.target)) return;
+
+    const position = info.point.x / window.innerWidth;
+    if (position < TAP_ZONE) {
+      prevSlide();
+    } else if (position > 1 - TAP_ZONE) {
+      nextSlide();
+    }
+  };
+
+  // Under reduced motion slides cross-fade in place, and quickly
+  const slideOffset = (side: number) => (reducedMotion ? 0 : `${side * 100}%`);
+  const slideVariants = {
+    enter: (dir: number) => ({
+      x: slideOffset(dir > 0 ? 1 : -1),
+      opacity: 0,
+    }),
+    center: {
+      x: 0,
+      opacity: 1,
+    },
+    exit: (dir: number) => ({
+      x: slideOffset(dir > 0 ? -1 : 1),
+      opacity: 0,
+    }),
+  };
+
+  return (
+    <div className="h-screen w-screen overflow-hidden bg-surface-canvas relative" style={dayPaletteVariables(palette)}>
+      {/* Progress bar - one segment per chapter; the live region below says the same */}
+      <div className="absolute top-0 left-0 right-0 h-1 flex gap-1 z-50 print:hidden" aria-hidden="true">
+        {SECTIONS.map((section) => {
+          const sectionSlides = getSectionSlides(section.id);
+          const first = SLIDES.indexOf(sectionSlides[0].id);
+          const seen = Math.min(Math.max(currentSlide - first + 1, 0), sectionSlides.length);
+          return (
+            <div
+              key={section.id}
+              className="h-full bg-fg/10"
+              style={{ flexGrow: sectionSlides.length }}
+            >
+              <motion.div
+                className="h-full bg-tod-accent"
+                animate={{ width: `${(seen / sectionSlides.length) * 100}%` }}
+                transition={{ duration: 0.3 }}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Slide container */}
+      <AnimatePresence mode="wait" custom={direction}>
+        <motion.div
+          key={slideId}
+          ref={attachSlide}
+          role="group"
+          aria-roledescription={messages.a11y.slide}
+          aria-label={format(messages.a11y.slideLabel, { number: currentSlide + 1, title: messages.slideMeta[slideId].title })}
+          tabIndex={-1}
+          custom={direction}
+          variants={slideVariants}
+          initial="enter"
+          animate="center"
+          exit="exit"
+          transition={{ duration: reducedMotion ? durations.quick : durations.slide, ease: [0.25, 0.1, 0.25, 1] }}
+          drag="x"
+          dragControls={swipeControls}
+          dragListener={false}
+          dragConstraints={{ left: 0, right: 0 }}
+          dragElastic={{
+            left: currentSlide === SLIDES.length - 1 ? SWIPE_ELASTIC_AT_END : SWIPE_ELASTIC,
+            right: currentSlide === 0 ? SWIPE_ELASTIC_AT_END : SWIPE_ELASTIC,
+          }}
+          onPointerDown={startSwipe}
+          onDragEnd={endSwipe}
+          onTap={tapEdge}
+          className="absolute inset-0 touch-pan-y outline-none"
+          style={{ backgroundColor: themeColor(slide.surface) }}
+        >
+          <FragmentProvider
+            step={fragmentStep}
+            onCountChange={(count) => setSlideFragmentCount(slideId, count)}
+          >
+            <SlideContent slideId={slideId} />
+          </FragmentProvider>
+          {/* Daylight falling on the slide */}
+          <div className="absolute inset-0 pointer-events-none bg-gradient-radial from-tod-glow/10 via-transparent to-transparent" aria-hidden="true" />
+        </motion.div>
+      </AnimatePresence>
+
+      {/* Navigation */}
+      <nav
+        className="absolute bottom-8 left-0 right-0 flex items-center justify-center gap-4 z-50 print:hidden"
+        aria-label={messages.a11y.navigation}
+      >
+        <button
+          onClick={prevSlide}
+          disabled={currentSlide === 0 && revealedFragments === 0}
+          className="p-3 text-fg/40 hover:text-fg disabled:opacity-20 transition-colors"
+          aria-label={messages.a11y.previous}
+        >
+          <ArrowLeft className="w-5 h-5" aria-hidden="true" />
+        </button>
+
+        <div className="flex items-center gap-4">
+          {SECTIONS.map((section) => (
+            <div
+              key={section.id}
+              className={`flex items-center gap-2 px-2 py-1 rounded-full transition-colors ${
+                section.id === slide.section ? 'bg-fg/10' : ''
+              }`}
+              role="group"
+              aria-label={messages.sections[section.id].title}
+              title={messages.sections[section.id].title}
+            >
+              {getSectionSlides(section.id).map(({ id }) => {
+                const i = SLIDES.indexOf(id);
+                return (
+                  <button
+                    key={id}
+                    onClick={() => goToSlide(i)}
+                    title={messages.slideMeta[id].title}
+                    aria-label={format(messages.a11y.slideLabel, { number: i + 1, title: messages.slideMeta[id].title })}
+                    aria-current={i === currentSlide ? 'step' : undefined}
+                    className={`w-2 h-2 rounded-full transition-all ${
+                      i === currentSlide ? 'bg-fg w-6' : 'bg-fg/30 hover:bg-fg/50'
+                    }`}
+                  />
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={nextSlide}
+          disabled={currentSlide === SLIDES.length - 1 && revealedFragments === fragmentCount}
+          className="p-3 text-fg/40 hover:text-fg disabled:opacity-20 transition-colors"
+          aria-label={messages.a11y.next}
+        >
+          <ArrowRight className="w-5 h-5" aria-hidden="true" />
+        </button>
+      </nav>
+
+      {/* Chapter overview */}
+      <AnimatePresence>
+        {overviewOpen && (
+          <SlideOverview
+            currentSlide={currentSlide}
+            onSelect={selectFromOverview}
+            onClose={closeOverview}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Shortcut help */}
+      <AnimatePresence>
+        {helpOpen && <ShortcutHelp onClose={closeHelp} />}
+      </AnimatePresence>
+
+      {/* Black screen - the room looks at the speaker, not the slide */}
+      {blackout && (
+        <div className="absolute inset-0 z-[70] bg-black cursor-none" onClick={() => setBlackout(false)} />
+      )}
+
+      {/* Presenter view and shortcut help */}
+      <div className="absolute bottom-8 left-8 flex gap-1 z-50 print:hidden" role="group" aria-label={messages.a11y.settings}>
+        <button
+          onClick={openPresenterView}
+          className="p-2 text-fg/30 hover:text-fg transition-colors"
+          title={messages.deck.presenter}
+          aria-label={messages.deck.presenter}
+        >
+          <Presentation className="w-4 h-4" aria-hidden="true" />
+        </button>
+        <button
+          onClick={() => setHelpOpen(true)}
+          className="p-2 text-fg/30 hover:text-fg transition-colors"
+          title={messages.deck.help}
+          aria-label={messages.deck.help}
+        >
+          <Keyboard className="w-4 h-4" aria-hidden="true" />
+        </button>
+        <button
+          onClick={cycleTheme}
+          className="p-2 text-fg/30 hover:text-fg transition-colors"
+          title={themeLabel}
+          aria-label={themeLabel}
+        >
+          <ThemeIcon className="w-4 h-4" aria-hidden="true" />
+        </button>
+        <SoundControl />
+        <button
+          onClick={() => setReducedMotionForced(!reducedMotionForced)}
+          className={`p-2 transition-colors ${reducedMotionForced ? 'text-fg/70 hover:text-fg' : 'text-fg/30 hover:text-fg'}`}
+          title={reducedMotionForced ? messages.deck.motionForced : messages.deck.motionForce}
+          aria-label={messages.deck.motionForce}
+          aria-pressed={reducedMotionForced}
+        >
+          {reducedMotion ? <Turtle className="w-4 h-4" aria-hidden="true" /> : <Rabbit className="w-4 h-4" aria-hidden="true" />}
+        </button>
+        <LanguageControl />
+      </div>
+
+      {scrubberOpen && <TimeScrubber className="absolute bottom-20 left-8 z-50 print:hidden" />}
+
+      {virtualGamepad && (
+        <VirtualGamepad className="absolute bottom-20 right-8 z-50 scale-75 origin-bottom-right print:hidden" />
+      )}
+
+      {/* Slide counter */}
+      <div className="absolute bottom-8 right-8 text-fg/30 text-sm tabular-nums print:hidden" aria-hidden="true">
+        {jumpBuffer ? <span className="text-fg">{jumpBuffer}_</span> : currentSlide + 1} / {SLIDES.length}
+      </div>
+
+      {/* Announces each arrival, however it happened */}
+      <div role="status" className="sr-only">
+        {format(messages.a11y.announcement, {
+          number: currentSlide + 1,
+          total: SLIDES.length,
+          title: messages.slideMeta[slideId].title,
+        })}
+      </div>
+    </div>
+  );
+}
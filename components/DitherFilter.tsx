@@ -0,0 +1,235 @@
+'use client';
+
+import React, { useId, useRef, useState } from 'react';
+import { colors } from '@/lib/tokens';
+import { useLocale } from '@/lib/useLocale';
+import { useSvgId } from '@/lib/useSvgId';
+
+// ============================================
+// SVG DITHER FILTER
+// feTurbulence → feDisplacementMap → feGaussianBlur. Noise warps
+// the element, blur softens the warp: organic depth, like mist,
+// instead of a camera-style CSS blur.
+// ============================================
+
+export interface DitherParams {
+  baseFrequency: number;
+  numOctaves: number;
+  scale: number;
+  blur: number;
+}
+
+export const DEFAULT_DITHER_PARAMS: DitherParams = {
+  baseFrequency: 0.8,
+  numOctaves: 4,
+  scale: 3,
+  blur: 1.5,
+};
+
+export function DitherFilter({
+  id,
+  params = DEFAULT_DITHER_PARAMS,
+}: {
+  id: string;
+  params?: DitherParams;
+}) {
+  // Not display:none — browsers skip filters defined in hidden SVGs
+  return (
+    <svg width="0" height="0" className="absolute" aria-hidden="true">
+      <defs>
+        <filter id={id} x="-10%" y="-10%" width="120%" height="120%">
+          <feTurbulence type="fractalNoise" baseFrequency={params.baseFrequency} numOctaves={params.numOctaves} result="noise" />
+          <feDisplacementMap in="SourceGraphic" in2="noise" scale={params.scale} xChannelSelector="R" yChannelSelector="G" result="displaced" />
+          <feGaussianBlur in="displaced" stdDeviation={params.blur} />
+        </filter>
+      </defs>
+    </svg>
+  );
+}
+
+// Applies the dither filter to any element. With `enabled` false the
+// children render sharp, so focus changes can toggle it in place.
+export function Dithered({
+  children,
+  params = DEFAULT_DITHER_PARAMS,
+  enabled = true,
+  className = '',
+  style,
+}: {
+  children: React.ReactNode;
+  params?: DitherParams;
+  enabled?: boolean;
+  className?: string;
+  style?: React.CSSProperties;
+}) {
+  const filterId = useSvgId('dither');
+
+  return (
+    <div
+      className={className}
+      style={{ ...style, filter: enabled ? `url(#${filterId})` : undefined }}
+    >
+      {enabled && <DitherFilter id={filterId} params={params} />}
+      {children}
+    </div>
+  );
+}
+
+// ============================================
+// DITHER CONTROLS
+// One slider per filter primitive attribute.
+// ============================================
+
+const CONTROLS: {
+  key: keyof DitherParams;
+  primitive: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  { key: 'baseFrequency', primitive: 'feTurbulence', label: 'baseFrequency', min: 0.05, max: 2, step: 0.05 },
+  { key: 'numOctaves', primitive: 'feTurbulence', label: 'numOctaves', min: 1, max: 6, step: 1 },
+  { key: 'scale', primitive: 'feDisplacementMap', label: 'scale', min: 0, max: 20, step: 0.5 },
+  { key: 'blur', primitive: 'feGaussianBlur', label: 'stdDeviation', min: 0, max: 5, step: 0.1 },
+];
+
+export function DitherControls({
+  params,
+  onChange,
+}: {
+  params: DitherParams;
+  onChange: (params: DitherParams) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      {CONTROLS.map((control) => (
+        <label key={control.key} className="block text-xs">
+          <span className="flex items-center justify-between mb-0.5">
+            <span>
+              <span className="text-dither font-semibold">{control.primitive}</span>
+              <span className="text-fg/40"> {control.label}</span>
+            </span>
+            <span className="text-fg/60 tabular-nums">{params[control.key]}</span>
+          </span>
+          <input
+            type="range"
+            min={control.min}
+            max={control.max}
+            step={control.step}
+            value={params[control.key]}
+            onChange={(e) => onChange({ ...params, [control.key]: Number(e.target.value) })}
+            className="w-full"
+            style={{ accentColor: colors.dither }}
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
+
+// ============================================
+// BEFORE / AFTER SPLIT
+// The same content twice: sharp underneath, dithered on top and
+// clipped to the right of a draggable divider. A click also moves
+// the divider, and its handle is a slider for the keyboard. The
+// content itself is a picture; `title` and `description` stand in
+// for it with assistive tech.
+// ============================================
+
+// Divider keys, in percent of the width
+const SPLIT_STEP = 5;
+const SPLIT_KEYS: Record<string, (split: number) => number> = {
+  ArrowLeft: (split) => split - SPLIT_STEP,
+  ArrowDown: (split) => split - SPLIT_STEP,
+  ArrowRight: (split) => split + SPLIT_STEP,
+  ArrowUp: (split) => split + SPLIT_STEP,
+  Home: () => 0,
+  End: () => 100,
+};
+
+export function DitherSplitView({
+  children,
+  params,
+  title,
+  description,
+  className = '',
+}: {
+  children: React.ReactNode;
+  params: DitherParams;
+  title: string;
+  description: string;
+  className?: string;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [split, setSplit] = useState(50);
+  const [dragging, setDragging] = useState(false);
+  const copy = useLocale().messages;
+  const descriptionId = useId();
+
+  const updateSplit = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const move = SPLIT_KEYS[e.key];
+    if (!move) return;
+    // The deck would take the arrows for slide navigation
+    e.preventDefault();
+    e.stopPropagation();
+    setSplit(Math.min(100, Math.max(0, move(split))));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      data-no-swipe
+      role="group"
+      aria-label={title}
+      aria-describedby={descriptionId}
+      className={`relative overflow-hidden select-none cursor-ew-resize ${className}`}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDragging(true);
+        updateSplit(e.clientX);
+      }}
+      onPointerMove={(e) => dragging && updateSplit(e.clientX)}
+      onPointerUp={() => setDragging(false)}
+    >
+      <div aria-hidden="true">
+        <div className="absolute inset-0">{children}</div>
+        <Dithered
+          params={params}
+          className="absolute inset-0"
+          style={{ clipPath: `inset(0 0 0 ${split}%)` }}
+        >
+          {children}
+        </Dithered>
+      </div>
+
+      {/* Divider */}
+      <div className="absolute top-0 bottom-0 w-px bg-white/80" style={{ left: `${split}%` }}>
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-label={copy.a11y.diagrams.dithering.divider}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(split)}
+          aria-valuetext={`${Math.round(split)}%`}
+          onKeyDown={handleKeyDown}
+          className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-4 h-8 rounded-sm bg-white/90 outline-none focus-visible:ring-2 focus-visible:ring-dither"
+        />
+      </div>
+      <span className="absolute top-2 left-2 text-[10px] font-bold text-white/80 tracking-wider" aria-hidden="true">
+        {copy.controls.focused}
+      </span>
+      <span className="absolute top-2 right-2 text-[10px] font-bold text-white/80 tracking-wider" aria-hidden="true">
+        {copy.controls.unfocused}
+      </span>
+      <p id={descriptionId} className="sr-only">{description}</p>
+    </div>
+  );
+}
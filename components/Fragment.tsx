@@ -0,0 +1,101 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { durations } from '@/lib/tokens';
+
+// ============================================
+// FRAGMENTS
+// Build steps within a slide. Each <Fragment index={n}> appears once
+// the deck has stepped to n; the provider reports the highest index
+// so the deck knows how many steps a slide has before moving on.
+// Outside a provider (thumbnails, handout, export) every fragment
+// shows, so static renders get the finished slide.
+//
+// A fragment still to come is inert and hidden from assistive tech,
+// so keyboard and screen-reader users meet it when it appears.
+// ============================================
+
+const FragmentContext = createContext<{
+  step: number;
+  register: (index: number) => () => void;
+} | null>(null);
+
+// Pass as `step` to show every fragment, e.g. when arriving backwards
+export const ALL_FRAGMENTS = Infinity;
+
+export function FragmentProvider({
+  step,
+  onCountChange,
+  children,
+}: {
+  step: number;
+  onCountChange: (count: number) => void;
+  children: React.ReactNode;
+}) {
+  const [indices, setIndices] = useState<number[]>([]);
+
+  const register = useCallback((index: number) => {
+    setIndices((prev) => [...prev, index]);
+    return () => {
+      setIndices((prev) => {
+        const position = prev.indexOf(index);
+        return prev.filter((_, i) => i !== position);
+      });
+    };
+  }, []);
+
+  const count = indices.length > 0 ? Math.max(...indices) : 0;
+
+  useEffect(() => {
+    onCountChange(count);
+  }, [count, onCountChange]);
+
+  const value = useMemo(() => ({ step, register }), [step, register]);
+
+  return <FragmentContext.Provider value={value}>{children}</FragmentContext.Provider>;
+}
+
+// The step the surrounding slide is on; outside a provider, all of them
+export function useFragmentStep() {
+  return useContext(FragmentContext)?.step ?? ALL_FRAGMENTS;
+}
+
+export default function Fragment({
+  index,
+  children,
+  className = '',
+  style,
+}: {
+  index: number;
+  children: React.ReactNode;
+  className?: string;
+  style?: React.CSSProperties;
+}) {
+  const context = useContext(FragmentContext);
+  const register = context?.register;
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => register?.(index), [register, index]);
+
+  const visible = !context || context.step >= index;
+
+  // React 18 has no inert prop
+  useEffect(() => {
+    ref.current?.toggleAttribute('inert', !visible);
+  }, [visible]);
+
+  return (
+    <motion.div
+      ref={ref}
+      aria-hidden={visible ? undefined : true}
+      className={className}
+      style={style}
+      initial={false}
+      animate={visible ? { opacity: 1, y: 0 } : { opacity: 0, y: 10 }}
+      transition={{ duration: durations.base }}
+    >
+      {children}
+    </motion.div>
+  );
+}
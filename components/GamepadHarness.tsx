@@ -0,0 +1,87 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useGamepadButtons, type GamepadButton } from '@/lib/gamepad';
+import VirtualGamepad from '@/components/VirtualGamepad';
+import OS2Console from '@/components/OS2Console';
+
+// ============================================
+// GAMEPAD HARNESS
+// Exercises the gamepad path without hardware: the virtual pad on
+// the left, what the poller saw in the log, and a console to drive.
+// ============================================
+
+const LOG_LENGTH = 12;
+
+export default function GamepadHarness() {
+  const [log, setLog] = useState<{ id: number; button: GamepadButton }[]>([]);
+  const [pads, setPads] = useState<string[]>([]);
+
+  useGamepadButtons((button) => {
+    setLog((prev) => [{ id: Date.now() + Math.random(), button }, ...prev].slice(0, LOG_LENGTH));
+  });
+
+  useEffect(() => {
+    const update = () => {
+      setPads(
+        Array.from(navigator.getGamepads?.() ?? [])
+          .filter((pad): pad is Gamepad => pad !== null)
+          .map((pad) => `${pad.id} (${pad.mapping || 'non-standard'})`)
+      );
+    };
+    update();
+    window.addEventListener('gamepadconnected', update);
+    window.addEventListener('gamepaddisconnected', update);
+    return () => {
+      window.removeEventListener('gamepadconnected', update);
+      window.removeEventListener('gamepaddisconnected', update);
+    };
+  }, []);
+
+  return (
+    <main className="h-screen w-screen bg-night text-white p-8 flex gap-8">
+      <div className="w-80 flex-shrink-0 flex flex-col gap-6">
+        <div>
+          <p className="text-ps4 text-xs tracking-[0.4em] uppercase mb-2">Test Harness</p>
+          <h1 className="text-2xl font-bold">Gamepad</h1>
+        </div>
+
+        <VirtualGamepad />
+
+        <div>
+          <p className="text-white/40 text-xs uppercase tracking-wider mb-2">Hardware</p>
+          {pads.length > 0 ? (
+            pads.map((pad) => <p key={pad} className="text-white/70 text-xs">{pad}</p>)
+          ) : (
+            <p className="text-white/30 text-xs">None connected. Press a button on a controller to wake it.</p>
+          )}
+        </div>
+
+        <div className="flex-1 min-h-0">
+          <p className="text-white/40 text-xs uppercase tracking-wider mb-2">Presses</p>
+          <ul className="space-y-1 font-mono text-xs">
+            {log.map((entry, i) => (
+              <li key={entry.id} className={i === 0 ? 'text-white' : 'text-white/40'}>
+                {entry.button}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <p className="text-white/30 text-xs">
+          To drive the deck, open it with{' '}
+          <Link href="/slides/title?gamepad" className="text-white/60 underline">?gamepad</Link>{' '}
+          for an on-screen pad.
+        </p>
+      </div>
+
+      <div className="flex-1 flex flex-col justify-center">
+        <OS2Console className="rounded-lg border border-harbor/50" style={{ aspectRatio: '16/10', fontSize: 16 }} />
+        <p className="text-white/40 text-xs mt-3 text-center">
+          Click the console to give it the pad: D-pad moves, ✕ selects, ○ backs out, OPTIONS opens the sheet.
+        </p>
+      </div>
+    </main>
+  );
+}
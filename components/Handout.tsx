@@ -0,0 +1,125 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Printer } from 'lucide-react';
+import { SLIDE_REGISTRY, type Slide } from '@/lib/slides';
+import { freezeMotion } from '@/lib/motion';
+import { SideNoteCollectorContext, useSideNoteCollector } from '@/components/SideNote';
+import SlideThumbnail from '@/components/SlideThumbnail';
+import { useLocale } from '@/lib/useLocale';
+
+// ============================================
+// HANDOUT
+// Every slide laid out vertically for printing, with its side notes
+// and speaker notes as text alongside. One or two slides per page.
+// ============================================
+
+type HandoutLayout = 'single' | 'double';
+
+// Slide scale per layout, sized to fit A4 landscape (single)
+// or A4 portrait (double) next to a notes column.
+const SLIDE_SCALE: Record<HandoutLayout, number> = {
+  single: 0.6,
+  double: 0.35,
+};
+
+function HandoutSlide({
+  slide,
+  index,
+  layout,
+}: {
+  slide: Slide;
+  index: number;
+  layout: HandoutLayout;
+}) {
+  const [sideNotes, collector] = useSideNoteCollector();
+  const { messages } = useLocale();
+  const endsPage = layout === 'single' || index % 2 === 1;
+
+  return (
+    <article
+      className={`flex gap-4 py-6 border-b border-ink/10 break-inside-avoid ${
+        endsPage ? 'break-after-page' : ''
+      }`}
+      style={{ page: `handout-${layout}` }}
+    >
+      <div className="flex-shrink-0">
+        <p className="text-xs text-ink/40 tracking-[0.2em] uppercase mb-1">
+          {index + 1} · {messages.sections[slide.section].title}
+        </p>
+        <h2 className="text-lg font-bold mb-3">{messages.slideMeta[slide.id].title}</h2>
+        <SideNoteCollectorContext.Provider value={collector}>
+          <SlideThumbnail
+            slideId={slide.id}
+            scale={SLIDE_SCALE[layout]}
+            className="border border-ink/20"
+          />
+        </SideNoteCollectorContext.Provider>
+      </div>
+
+      <aside className="flex-1 min-w-0 pt-10 space-y-4 text-sm leading-relaxed">
+        {sideNotes.length > 0 && (
+          <section>
+            <h3 className="text-xs font-bold text-ink/50 tracking-[0.2em] uppercase mb-2">{messages.handout.onTheSlide}</h3>
+            <ul className="space-y-2">
+              {sideNotes.map((note) => (
+                <li key={note.id}>
+                  <span className="font-semibold text-tanaka">{messages.handout.noteLabels[note.type]}: </span>
+                  <span className="text-ink/80">{note.content}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+        <section>
+          <h3 className="text-xs font-bold text-ink/50 tracking-[0.2em] uppercase mb-2">{messages.handout.speakerNotes}</h3>
+          <p className="text-ink/80">{messages.slideMeta[slide.id].notes}</p>
+        </section>
+      </aside>
+    </article>
+  );
+}
+
+export default function Handout() {
+  freezeMotion();
+
+  const [layout, setLayout] = useState<HandoutLayout>('single');
+  const { messages } = useLocale();
+
+  return (
+    <div className="h-screen overflow-y-auto bg-white text-ink print:h-auto print:overflow-visible">
+      {/* Toolbar */}
+      <div className="sticky top-0 z-10 flex items-center justify-between gap-4 px-8 py-4 bg-white border-b border-ink/10 print:hidden">
+        <h1 className="font-bold">{messages.handout.title}</h1>
+        <div className="flex items-center gap-2 text-sm">
+          {(['single', 'double'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setLayout(option)}
+              className={`px-3 py-1 rounded border transition-colors ${
+                layout === option
+                  ? 'border-ink bg-ink text-white'
+                  : 'border-ink/20 hover:border-ink/50'
+              }`}
+            >
+              {messages.handout[option]}
+            </button>
+          ))}
+          <button
+            onClick={() => window.print()}
+            className="ml-4 flex items-center gap-2 px-3 py-1 rounded bg-tanaka text-white"
+          >
+            <Printer className="w-4 h-4" />
+            {messages.handout.print}
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto px-8 print:px-0 print:max-w-none">
+        {SLIDE_REGISTRY.map((slide, i) => (
+          <HandoutSlide key={slide.id} slide={slide} index={i} layout={layout} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  EDGE_KINDS,
+  INFLUENCE_EDGES,
+  INFLUENCE_NODES,
+  neighborhood,
+  type InfluenceEdgeKind,
+  type InfluenceNode,
+} from '@/lib/influences';
+import Kanji from '@/components/Kanji';
+import { forceLayout } from '@/lib/forceLayout';
+import { format } from '@/lib/i18n';
+import { slidePath } from '@/lib/slides';
+import { durations } from '@/lib/tokens';
+import { useLocale } from '@/lib/useLocale';
+import { useSvgId } from '@/lib/useSvgId';
+
+// ============================================
+// INFLUENCE GRAPH
+// Renders lib/influences. Hovering or focusing a node lights up its
+// connections; clicking it (or Enter) jumps to that influence's
+// intro slide through the same pushState the deck navigates with.
+// Screen readers get a title and summary, then one link per node;
+// edges and legend are left to the summary. Node kanji open the
+// same popover as everywhere else on hover; the node itself is the
+// focus stop.
+// ============================================
+
+const WIDTH = 800;
+const HEIGHT = 460;
+
+// Desktop influences, OS, Ma, OS2, console influences: left to right
+function anchorX(node: InfluenceNode) {
+  if (node.group === 'shared') return 0.5;
+  const solution = node.group === 'os' ? 0.3 : 0.7;
+  const influences = node.group === 'os' ? 0 : 1;
+  return node.solution ? solution : influences;
+}
+
+// The data is static, so lay it out once per page load
+const POSITIONS = forceLayout(
+  INFLUENCE_NODES.map((node) => ({ id: node.id, anchorX: anchorX(node) })),
+  INFLUENCE_EDGES.map((edge) => ({
+    from: edge.from,
+    to: edge.to,
+    length: edge.kind === 'inspires' ? 0.9 : 1.3,
+  })),
+  { width: WIDTH, height: HEIGHT, padding: 70 }
+);
+
+const NODES_BY_ID = new Map(INFLUENCE_NODES.map((node) => [node.id, node]));
+
+function radius(node: InfluenceNode) {
+  return node.solution ? 38 : 28;
+}
+
+export default function InfluenceGraph({ className = '' }: { className?: string }) {
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const { messages } = useLocale();
+  const copy = messages.influenceGraph;
+  const { title, desc } = messages.a11y.diagrams.influenceMap;
+  const id = useSvgId('influence');
+  const lit = activeId ? neighborhood(activeId) : null;
+
+  const open = (node: InfluenceNode) => {
+    window.history.pushState(null, '', slidePath(node.slide));
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT + 40}`}
+      className={`text-fg ${className}`}
+      role="group"
+      aria-labelledby={`${id}-title`}
+      aria-describedby={`${id}-desc`}
+      data-no-swipe
+    >
+      <title id={`${id}-title`}>{title}</title>
+      <desc id={`${id}-desc`}>{desc}</desc>
+      <defs>
+        <marker id={`${id}-arrow`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+          <path d="M0 0 L10 5 L0 10 z" fill="currentColor" />
+        </marker>
+      </defs>
+
+      {/* Edges, stopped at the rim of each circle */}
+      <g aria-hidden="true">
+        {INFLUENCE_EDGES.map((edge) => {
+          const from = NODES_BY_ID.get(edge.from);
+          const to = NODES_BY_ID.get(edge.to);
+          // An edge to a node that isn't drawn has nowhere to go
+          if (!from || !to) return null;
+          const a = POSITIONS[from.id];
+          const b = POSITIONS[to.id];
+          const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+          const ux = (b.x - a.x) / length;
+          const uy = (b.y - a.y) / length;
+          const highlighted = edge.from === activeId || edge.to === activeId;
+
+          return (
+            <motion.line
+              key={`${edge.from}-${edge.to}`}
+              x1={a.x + ux * (radius(from) + 4)}
+              y1={a.y + uy * (radius(from) + 4)}
+              x2={b.x - ux * (radius(to) + 6)}
+              y2={b.y - uy * (radius(to) + 6)}
+              stroke={edge.kind === 'inspires' ? from.color : 'currentColor'}
+              strokeWidth={highlighted ? 3 : 2}
+              strokeDasharray={EDGE_KINDS[edge.kind].dashed ? '4 4' : undefined}
+              markerEnd={edge.kind === 'inspires' ? `url(#${id}-arrow)` : undefined}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: lit ? (highlighted ? 0.9 : 0.08) : 0.4 }}
+              transition={{ duration: durations.quick }}
+            />
+          );
+        })}
+      </g>
+
+      {/* Nodes */}
+      {INFLUENCE_NODES.map((node, i) => {
+        const { x, y } = POSITIONS[node.id];
+        const r = radius(node);
+        const { name, description } = copy.nodes[node.id];
+        return (
+          <motion.g
+            key={node.id}
+            role="link"
+            tabIndex={0}
+            aria-label={format(copy.goToSlide, { name, description })}
+            className="cursor-pointer outline-none"
+            onMouseEnter={() => setActiveId(node.id)}
+            onMouseLeave={() => setActiveId(null)}
+            onFocus={() => setActiveId(node.id)}
+            onBlur={() => setActiveId(null)}
+            onClick={() => open(node)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                e.stopPropagation();
+                open(node);
+              }
+            }}
+            initial={{ opacity: 0, scale: 0 }}
+            animate={{ opacity: lit && !lit.has(node.id) ? 0.25 : 1, scale: 1 }}
+            transition={{ delay: lit ? 0 : 0.2 + i * 0.08, duration: lit ? durations.quick : durations.slide }}
+            style={{ transformOrigin: `${x}px ${y}px` }}
+          >
+            <circle cx={x} cy={y} r={r + 7} fill={node.color} opacity={activeId === node.id ? 0.4 : 0.2} />
+            <circle cx={x} cy={y} r={r} fill={node.color} />
+            <foreignObject x={x - r} y={y - r} width={r * 2} height={r * 2}>
+              <div
+                className="w-full h-full flex items-center justify-center font-bold text-white leading-none"
+                style={{ fontSize: node.solution ? 26 : 20 }}
+              >
+                <Kanji focusable={false}>{node.kanji}</Kanji>
+              </div>
+            </foreignObject>
+            <text x={x} y={y + r + 20} textAnchor="middle" fill="currentColor" fontSize="12" fontWeight="bold">
+              {name}
+            </text>
+            <text x={x} y={y + r + 34} textAnchor="middle" fill="currentColor" fillOpacity="0.5" fontSize="10">
+              {description}
+            </text>
+          </motion.g>
+        );
+      })}
+
+      {/* Legend */}
+      <g fontSize="11" fill="currentColor" fillOpacity="0.5" aria-hidden="true">
+        {Object.entries(EDGE_KINDS).map(([id, kind], i) => (
+          <g key={id} transform={`translate(${WIDTH / 2 - 150 + i * 170}, ${HEIGHT + 24})`}>
+            <line x1="0" y1="-4" x2="28" y2="-4" stroke="currentColor" strokeWidth="2" strokeDasharray={kind.dashed ? '4 4' : undefined} />
+            <text x="36" y="0">{copy.edgeKinds[id as InfluenceEdgeKind]}</text>
+          </g>
+        ))}
+      </g>
+    </svg>
+  );
+}
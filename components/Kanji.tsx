@@ -0,0 +1,157 @@
+'use client';
+
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { motion } from 'framer-motion';
+import { KANJI_DICTIONARY, isKanjiWord, type KanjiWord } from '@/lib/kanji';
+import { durations } from '@/lib/tokens';
+import { useLocale } from '@/lib/useLocale';
+
+// ============================================
+// KANJI
+// Marks Japanese text as lang="ja", so the browser shapes it with a
+// Japanese font whatever the deck language, and sets its reading
+// above it when the annotation mode asks for one. Style the
+// surrounding element; ruby layout breaks under display: block.
+//
+// Words in lib/kanji also open a popover on hover or focus with
+// their reading, meaning and why the deck uses them. It stays open
+// while the pointer is over it and Escape closes it.
+// ============================================
+
+const POPOVER_WIDTH = 256;
+const GAP = 8;
+// Lets the pointer cross from the glyph to the popover
+const CLOSE_DELAY_MS = 120;
+
+export default function Kanji({
+  children,
+  focusable = true,
+}: {
+  children: string;
+  // Off inside controls that manage focus themselves (the console,
+  // influence graph nodes)
+  focusable?: boolean;
+}) {
+  const { annotation } = useLocale();
+  const word = isKanjiWord(children) ? children : null;
+  const [anchor, setAnchor] = useState<DOMRect | null>(null);
+  const glyph = useRef<HTMLSpanElement>(null);
+  const closeTimer = useRef<number>();
+  const id = useId();
+
+  const open = () => {
+    window.clearTimeout(closeTimer.current);
+    if (glyph.current) setAnchor(glyph.current.getBoundingClientRect());
+  };
+  const close = () => {
+    window.clearTimeout(closeTimer.current);
+    closeTimer.current = window.setTimeout(() => setAnchor(null), CLOSE_DELAY_MS);
+  };
+
+  // Capture, so Escape closes the popover before the deck sees it
+  useEffect(() => {
+    if (!anchor) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      e.stopPropagation();
+      setAnchor(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [anchor]);
+
+  useEffect(() => () => window.clearTimeout(closeTimer.current), []);
+
+  if (!word) return <span lang="ja">{children}</span>;
+
+  const entry = KANJI_DICTIONARY[word];
+  const romaji = annotation === 'romaji';
+  const text =
+    annotation === 'off' ? (
+      children
+    ) : (
+      <ruby>
+        {children}
+        <rp>(</rp>
+        <rt lang={romaji ? 'ja-Latn' : 'ja'} className="text-[0.3em] font-normal tracking-wider opacity-60">
+          {romaji ? entry.romaji : entry.kana}
+        </rt>
+        <rp>)</rp>
+      </ruby>
+    );
+
+  return (
+    <>
+      <span
+        ref={glyph}
+        lang="ja"
+        tabIndex={focusable ? 0 : undefined}
+        aria-describedby={anchor ? id : undefined}
+        className="cursor-help rounded-sm outline-none focus-visible:ring-2 focus-visible:ring-current"
+        onMouseEnter={open}
+        onMouseLeave={close}
+        onFocus={open}
+        onBlur={() => setAnchor(null)}
+      >
+        {text}
+      </span>
+      {anchor &&
+        createPortal(
+          <KanjiPopover id={id} word={word} anchor={anchor} onMouseEnter={open} onMouseLeave={close} />,
+          document.body
+        )}
+    </>
+  );
+}
+
+function KanjiPopover({
+  id,
+  word,
+  anchor,
+  onMouseEnter,
+  onMouseLeave,
+}: {
+  id: string;
+  word: KanjiWord;
+  anchor: DOMRect;
+  onMouseEnter: () => void;
+  onMouseLeave: () => void;
+}) {
+  const { messages } = useLocale();
+  const { kana, romaji } = KANJI_DICTIONARY[word];
+  const { meaning, rationale } = messages.kanji[word];
+
+  // Centred under the glyph, kept on screen, flipped above near the bottom
+  const left = Math.min(
+    Math.max(GAP, anchor.left + anchor.width / 2 - POPOVER_WIDTH / 2),
+    window.innerWidth - POPOVER_WIDTH - GAP
+  );
+  const below = anchor.bottom + GAP;
+  const flip = below > window.innerHeight * 0.7;
+  const position = flip ? { bottom: window.innerHeight - anchor.top + GAP } : { top: below };
+
+  return (
+    <motion.div
+      id={id}
+      role="tooltip"
+      className="fixed z-[70] p-4 rounded-lg bg-night/90 border border-white/10 text-white text-left backdrop-blur shadow-xl print:hidden"
+      style={{ left, width: POPOVER_WIDTH, ...position }}
+      initial={{ opacity: 0, y: flip ? 4 : -4 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: durations.quick }}
+      onMouseEnter={onMouseEnter}
+      onMouseLeave={onMouseLeave}
+      data-no-swipe
+    >
+      <div className="flex items-baseline gap-3 mb-2">
+        <span lang="ja" className="text-3xl font-bold leading-none">{word}</span>
+        <span className="text-sm text-white/60">
+          <span lang="ja">{kana}</span> · <span lang="ja-Latn">{romaji}</span>
+        </span>
+      </div>
+      <p className="text-sm font-semibold">{meaning}</p>
+      <p className="text-xs text-white/60 mt-1 leading-relaxed">{rationale}</p>
+    </motion.div>
+  );
+}
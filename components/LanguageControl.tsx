@@ -0,0 +1,43 @@
+'use client';
+
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { format } from '@/lib/i18n';
+import { cycleAnnotation, cycleLocale, useLocale } from '@/lib/useLocale';
+
+// ============================================
+// LANGUAGE CONTROL
+// Switches the deck between English and Japanese, and kanji
+// readings between off, furigana and romaji.
+// ============================================
+
+const ANNOTATION_GLYPHS = { off: 'あ', furigana: 'あ', romaji: 'a' };
+
+export default function LanguageControl() {
+  const { locale, annotation, messages } = useLocale();
+  const annotationLabel = format(messages.deck.annotation, { mode: messages.deck.annotations[annotation] });
+
+  return (
+    <div className="flex items-center" data-no-swipe>
+      <button
+        onClick={cycleLocale}
+        className="p-2 flex items-center gap-1 text-fg/30 hover:text-fg transition-colors"
+        title={messages.deck.language}
+        aria-label={messages.deck.language}
+      >
+        <Languages className="w-4 h-4" aria-hidden="true" />
+        <span className="text-[10px] font-bold uppercase" aria-hidden="true">{locale}</span>
+      </button>
+      <button
+        onClick={cycleAnnotation}
+        className={`p-2 w-8 text-sm leading-4 transition-colors ${
+          annotation === 'off' ? 'text-fg/30 hover:text-fg' : 'text-fg/70 hover:text-fg'
+        }`}
+        title={annotationLabel}
+        aria-label={annotationLabel}
+      >
+        <span lang={annotation === 'romaji' ? 'en' : 'ja'} aria-hidden="true">{ANNOTATION_GLYPHS[annotation]}</span>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+'use client';
+
+import React from 'react';
+import { MotionConfig } from 'framer-motion';
+import { useMotionReduced } from '@/lib/motion';
+
+// ============================================
+// MOTION POLICY
+// Applies the reduced-motion decision from lib/motion to every
+// framer-motion animation on the page: transforms (slides, scales,
+// rotations) jump to their end state, opacity still fades.
+// ============================================
+
+export default function MotionPolicy({ children }: { children: React.ReactNode }) {
+  const reduced = useMotionReduced();
+  return <MotionConfig reducedMotion={reduced ? 'always' : 'never'}>{children}</MotionConfig>;
+}
@@ -0,0 +1,427 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import BoidsAquarium from '@/components/BoidsAquarium';
+import Kanji from '@/components/Kanji';
+import { useGamepadButtons, type GamepadButton } from '@/lib/gamepad';
+import { chrome, colors, durations, os2Colors } from '@/lib/tokens';
+import { useTimeOfDay, dayPaletteVariables } from '@/lib/timeOfDay';
+import { playCue } from '@/lib/audio';
+import { useLoopTransition } from '@/lib/motion';
+import { format } from '@/lib/i18n';
+import { useLocale } from '@/lib/useLocale';
+
+// ============================================
+// OS2 CONSOLE
+// A controller-first shell: one row of tiles, one focused at a time.
+// Focus is scale + brightness + border; the hero area previews the
+// focused tile; ✕ opens it into a panel, ○ backs out, OPTIONS
+// brings up the options sheet for whatever is focused.
+//
+// Tile and option copy lives in the locale catalog under console.
+// Screen readers get one live line for whatever has focus, since the
+// tiles themselves stay out of the tab order.
+// ============================================
+
+type TileId = 'fish' | 'apps' | 'docs' | 'media' | 'settings' | 'store';
+
+interface ConsoleTile {
+  id: TileId;
+  kanji: string;
+  color: string;
+}
+
+const TILES: ConsoleTile[] = [
+  { id: 'fish', kanji: '魚', color: os2Colors.blue },
+  { id: 'apps', kanji: '端', color: colors.pine },
+  { id: 'docs', kanji: '書', color: os2Colors.leather },
+  { id: 'media', kanji: '映', color: colors.dither },
+  { id: 'settings', kanji: '設', color: chrome[700] },
+  { id: 'store', kanji: '店', color: colors.tanaka },
+];
+
+export type ConsoleAction = 'left' | 'right' | 'up' | 'down' | 'select' | 'back' | 'options';
+
+// ✕ and ○ map to the keys a keyboard player reaches for first
+const KEY_ACTIONS: Record<string, ConsoleAction> = {
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  Enter: 'select',
+  x: 'select',
+  Escape: 'back',
+  Backspace: 'back',
+  o: 'back',
+  m: 'options',
+};
+
+// Face buttons as labeled in the hint bar
+const GAMEPAD_ACTIONS: Partial<Record<GamepadButton, ConsoleAction>> = {
+  left: 'left',
+  right: 'right',
+  up: 'up',
+  down: 'down',
+  cross: 'select',
+  circle: 'back',
+  options: 'options',
+};
+
+// Everything is sized in em, so the variant only sets the root font size
+const FONT_SIZES = {
+  embedded: '10px',
+  fullscreen: 'clamp(12px, 1.8vw, 28px)',
+} as const;
+
+export type ConsoleVariant = keyof typeof FONT_SIZES;
+
+// Stable 0–1 noise per index, so the star field is identical on the
+// server, the client and in static exports.
+function seededRandom(index: number, salt: number) {
+  const x = Math.sin(index * 12.9898 + salt * 78.233) * 43758.5453;
+  return x - Math.floor(x);
+}
+
+export default function OS2Console({
+  variant = 'embedded',
+  className = '',
+  style,
+}: {
+  variant?: ConsoleVariant;
+  className?: string;
+  style?: React.CSSProperties;
+}) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [focusedTile, setFocusedTile] = useState(0);
+  const [openTile, setOpenTile] = useState<number | null>(null);
+  const [focusedItem, setFocusedItem] = useState(0);
+  const [optionsOpen, setOptionsOpen] = useState(false);
+  const [focusedOption, setFocusedOption] = useState(0);
+  const { palette } = useTimeOfDay();
+  const loop = useLoopTransition();
+  const { messages } = useLocale();
+  const copy = messages.console;
+
+  const tile = TILES[openTile ?? focusedTile];
+  const tileCopy = copy.tiles[tile.id];
+
+  const a11y = messages.a11y.console;
+  const announcement = optionsOpen
+    ? format(a11y.option, { option: copy.options[focusedOption], number: focusedOption + 1, total: copy.options.length })
+    : openTile !== null
+      ? format(a11y.item, { title: tileCopy.title, item: tileCopy.items[focusedItem], number: focusedItem + 1, total: tileCopy.items.length })
+      : format(a11y.tile, { label: tileCopy.label, number: focusedTile + 1, total: TILES.length });
+
+  // One soft tick per tile the focus lands on, however it got there
+  const cuedTileRef = useRef(focusedTile);
+  useEffect(() => {
+    if (cuedTileRef.current === focusedTile) return;
+    cuedTileRef.current = focusedTile;
+    playCue('tile-focus');
+  }, [focusedTile]);
+
+  // Standalone, the console is the whole page and owns the keyboard
+  useEffect(() => {
+    if (variant === 'fullscreen') rootRef.current?.focus();
+  }, [variant]);
+
+  const dispatch = (action: ConsoleAction) => {
+    if (optionsOpen) {
+      switch (action) {
+        case 'up':
+          setFocusedOption((i) => Math.max(0, i - 1));
+          break;
+        case 'down':
+          setFocusedOption((i) => Math.min(copy.options.length - 1, i + 1));
+          break;
+        case 'select':
+        case 'back':
+        case 'options':
+          setOptionsOpen(false);
+          break;
+      }
+      return;
+    }
+
+    if (action === 'options') {
+      setOptionsOpen(true);
+      setFocusedOption(0);
+      return;
+    }
+
+    if (openTile === null) {
+      switch (action) {
+        case 'left':
+          setFocusedTile((i) => Math.max(0, i - 1));
+          break;
+        case 'right':
+          setFocusedTile((i) => Math.min(TILES.length - 1, i + 1));
+          break;
+        case 'select':
+          setOpenTile(focusedTile);
+          setFocusedItem(0);
+          break;
+      }
+      return;
+    }
+
+    switch (action) {
+      case 'up':
+        setFocusedItem((i) => Math.max(0, i - 1));
+        break;
+      case 'down':
+        setFocusedItem((i) => Math.min(tileCopy.items.length - 1, i + 1));
+        break;
+      case 'back':
+        setOpenTile(null);
+        break;
+    }
+  };
+
+  // Handled keys stop here, so arrows drive the console rather than
+  // the deck while it has focus.
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const action = KEY_ACTIONS[e.key];
+    if (!action) return;
+    e.preventDefault();
+    e.stopPropagation();
+    dispatch(action);
+  };
+
+  // Standalone the pad is always ours; embedded, only while focused
+  useGamepadButtons((button) => {
+    const action = GAMEPAD_ACTIONS[button];
+    if (!action) return;
+    if (variant === 'fullscreen' || rootRef.current?.contains(document.activeElement)) {
+      dispatch(action);
+    }
+  });
+
+  return (
+    <div
+      ref={rootRef}
+      tabIndex={0}
+      role="application"
+      aria-label={a11y.label}
+      onKeyDown={handleKeyDown}
+      data-gamepad-scope
+      data-no-swipe
+      className={`relative bg-os2-void overflow-hidden outline-none focus-visible:ring-2 focus-visible:ring-os2-blue/60 ${className}`}
+      style={{ fontSize: FONT_SIZES[variant], ...dayPaletteVariables(palette), ...style }}
+    >
+      {/* Ambient background gradient */}
+      <div className="absolute inset-0 bg-gradient-to-b from-tod-sky/30 via-tod-deep/20 to-os2-floor" aria-hidden="true" />
+
+      {/* Subtle particle/star effect */}
+      <div className="absolute inset-0 opacity-30" aria-hidden="true">
+        {[...Array(20)].map((_, i) => (
+          <motion.div
+            key={i}
+            className="absolute w-[0.2em] h-[0.2em] bg-white rounded-full"
+            style={{
+              left: `${seededRandom(i, 1) * 100}%`,
+              top: `${seededRandom(i, 2) * 60}%`,
+            }}
+            animate={{ opacity: [0.2, 0.6, 0.2] }}
+            transition={loop({
+              duration: 2 + seededRandom(i, 3) * 2,
+              delay: seededRandom(i, 4) * 2,
+            })}
+          />
+        ))}
+      </div>
+
+      {/* Top bar - PS4 style minimal */}
+      <div className="relative flex items-center justify-between px-[1.6em] py-[0.8em]" aria-hidden="true">
+        <div className="flex items-center gap-[1.2em]">
+          <motion.div
+            className="w-[2em] h-[2em] rounded-full bg-gradient-to-br from-os2-blue to-os2-deep flex items-center justify-center"
+            animate={{ scale: [1, 1.05, 1] }}
+            transition={loop({ duration: 3 })}
+          >
+            <span className="text-white text-[0.7em] font-bold">M</span>
+          </motion.div>
+          <span className="text-white/70">Mino</span>
+        </div>
+        <div className="flex items-center gap-[1.2em] text-white/40 text-[0.9em]">
+          <span>🔔</span>
+          <span>👤</span>
+          <span>⚙️</span>
+        </div>
+      </div>
+
+      {/* Large content preview - hero area follows the focused tile */}
+      <div className="relative mx-[1.6em] h-[11.2em] rounded overflow-hidden">
+        <AnimatePresence initial={false}>
+          <motion.div
+            key={tile.kanji}
+            className="absolute inset-0"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.3 }}
+          >
+            <div
+              className="absolute inset-0"
+              style={{ background: `linear-gradient(90deg, ${tile.color}33, ${tile.color}88, ${tile.color}33)` }}
+            />
+            {tile.kanji === '魚' && (
+              <div className="absolute inset-0">
+                <BoidsAquarium count={30} size={4} color={os2Colors.fish} seed={3} />
+              </div>
+            )}
+            <span
+              lang="ja"
+              aria-hidden="true"
+              className="absolute right-[0.4em] -top-[0.1em] text-[8em] leading-none text-white/10 font-bold select-none"
+            >
+              {tile.kanji}
+            </span>
+            <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent" />
+            <div className="absolute bottom-[1.2em] left-[1.6em]">
+              <p className="text-white font-bold text-[1.4em]">{tileCopy.title}</p>
+              <p className="text-white/60 text-[0.9em]">{tileCopy.subtitle}</p>
+            </div>
+          </motion.div>
+        </AnimatePresence>
+        {/* Play button indicator */}
+        <motion.div
+          aria-hidden="true"
+          className="absolute right-[1.6em] bottom-[1.2em] w-[3.2em] h-[3.2em] rounded-full bg-white/20 flex items-center justify-center backdrop-blur-sm"
+          animate={{ scale: [1, 1.1, 1] }}
+          transition={loop({ duration: 2 })}
+        >
+          <span className="text-white text-[1.2em] ml-[0.1em]">▶</span>
+        </motion.div>
+      </div>
+
+      {/* PS4-style horizontal tiles - left aligned, focused one grows */}
+      <div className="relative mt-[2em] px-[1.6em]">
+        <div className="flex items-end gap-[0.8em]">
+          {TILES.map((item, i) => {
+            const focused = i === focusedTile;
+            return (
+              <div key={item.kanji} className="flex flex-col items-center">
+                <motion.button
+                  tabIndex={-1}
+                  onClick={() => {
+                    setFocusedTile(i);
+                    rootRef.current?.focus();
+                  }}
+                  onDoubleClick={() => {
+                    setOpenTile(i);
+                    setFocusedItem(0);
+                  }}
+                  className="w-[4em] h-[4em] flex items-center justify-center rounded-sm relative origin-bottom border-2"
+                  animate={{
+                    scale: focused ? 1.4 : 1,
+                    filter: focused ? 'brightness(1)' : 'brightness(0.6)',
+                    backgroundColor: focused ? item.color : 'rgba(255,255,255,0.08)',
+                    borderColor: focused ? 'rgba(255,255,255,0.9)' : 'rgba(255,255,255,0)',
+                  }}
+                  style={{ boxShadow: focused ? `0 4px 20px ${item.color}66` : 'none' }}
+                  transition={{ type: 'spring', stiffness: 400, damping: 30 }}
+                >
+                  <span className={`text-[1.4em] ${focused ? 'text-white' : 'text-white/40'}`}>
+                    <Kanji focusable={false}>{item.kanji}</Kanji>
+                  </span>
+                </motion.button>
+                <span className={`mt-[0.8em] text-[0.7em] ${focused ? 'text-white' : 'text-white/30'}`}>
+                  {copy.tiles[item.id].label}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Expanded panel */}
+      <AnimatePresence>
+        {openTile !== null && (
+          <motion.div
+            className="absolute inset-0 z-10 bg-os2-void/95 flex"
+            initial={{ opacity: 0, scale: 1.04 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 1.04 }}
+            transition={{ duration: 0.25 }}
+          >
+            <div
+              className="w-2/5 flex items-center justify-center"
+              style={{ background: `linear-gradient(135deg, ${tile.color}, ${tile.color}44)` }}
+            >
+              <span className="text-[7em] text-white leading-none"><Kanji focusable={false}>{tile.kanji}</Kanji></span>
+            </div>
+            <div className="flex-1 p-[2em] flex flex-col">
+              <p className="text-white font-bold text-[1.6em]">{tileCopy.title}</p>
+              <p className="text-white/50 text-[0.9em] mb-[1.6em]">{tileCopy.subtitle}</p>
+              <div className="space-y-[0.6em]">
+                {tileCopy.items.map((label, i) => (
+                  <div
+                    key={label}
+                    className={`px-[1em] py-[0.6em] rounded-sm border-2 transition-all ${
+                      i === focusedItem
+                        ? 'bg-white/15 border-white/90 text-white'
+                        : 'bg-white/5 border-transparent text-white/40'
+                    }`}
+                  >
+                    {label}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Options sheet */}
+      <AnimatePresence>
+        {optionsOpen && (
+          <motion.div
+            className="absolute top-0 right-0 bottom-0 z-30 w-[18em] bg-os2-sheet/95 border-l border-white/10 p-[1.6em] pt-[3.2em]"
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ duration: durations.quick }}
+          >
+            <p className="text-white/40 text-[0.8em] tracking-widest uppercase mb-[1em]">{tileCopy.title}</p>
+            <div className="space-y-[0.4em]">
+              {copy.options.map((label, i) => (
+                <div
+                  key={label}
+                  className={`px-[1em] py-[0.5em] rounded-sm ${
+                    i === focusedOption ? 'bg-white/15 text-white' : 'text-white/40'
+                  }`}
+                >
+                  {label}
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Bottom bar - PS4 controller hints */}
+      <div className="absolute z-40 bottom-[0.8em] left-0 right-0 flex items-center justify-between px-[1.6em] text-white/30" aria-hidden="true">
+        <div className="flex items-center gap-[1.2em] text-[0.8em]">
+          <span className="flex items-center gap-[0.4em]">
+            <span className="w-[1.5em] h-[1.5em] rounded-full border border-white/30 flex items-center justify-center text-[0.75em]">✕</span>
+            {copy.select}
+          </span>
+          <span className="flex items-center gap-[0.4em]">
+            <span className="w-[1.5em] h-[1.5em] rounded-full border border-white/30 flex items-center justify-center text-[0.75em]">○</span>
+            {copy.back}
+          </span>
+        </div>
+        <div className="flex items-center gap-[0.4em] text-[0.8em]">
+          <span className="opacity-50">{copy.optionsButton}</span>
+          <span className="w-[2em] h-[1em] rounded-sm border border-white/30" />
+        </div>
+      </div>
+
+      <div role="status" className="sr-only">
+        {announcement}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,333 @@
+'use client';
+
+import React, { useCallback, useRef, useState } from 'react';
+import { motion, AnimatePresence, useDragControls } from 'framer-motion';
+import BoidsAquarium from '@/components/BoidsAquarium';
+import Kanji from '@/components/Kanji';
+import { Dithered, DEFAULT_DITHER_PARAMS, type DitherParams } from '@/components/DitherFilter';
+import { useTimeOfDay, dayPaletteVariables } from '@/lib/timeOfDay';
+import { playCue } from '@/lib/audio';
+import { colors } from '@/lib/tokens';
+import { useLocale } from '@/lib/useLocale';
+
+// ============================================
+// OS DESKTOP
+// A mini window manager: drag by the title bar, click to focus
+// (raises z-index, sharpens), minimize to the dock, close, reopen
+// from the dock. Unfocused windows recede behind the dither filter.
+//
+// App names and window copy live in the locale catalog under desktop.
+// ============================================
+
+type AppId = 'files' | 'browser' | 'notes' | 'music' | 'settings';
+
+interface AppDefinition {
+  id: AppId;
+  icon: string;
+  // Default geometry, as percentages of the desktop area
+  frame: { x: number; y: number; width: number; height: number };
+}
+
+const APPS: AppDefinition[] = [
+  { id: 'files', icon: '📁', frame: { x: 4, y: 6, width: 30, height: 40 } },
+  { id: 'browser', icon: '🌐', frame: { x: 38, y: 10, width: 44, height: 55 } },
+  { id: 'notes', icon: '📝', frame: { x: 16, y: 22, width: 32, height: 48 } },
+  { id: 'music', icon: '🎵', frame: { x: 56, y: 40, width: 28, height: 34 } },
+  { id: 'settings', icon: '⚙️', frame: { x: 30, y: 30, width: 34, height: 44 } },
+];
+
+type WindowState = 'open' | 'minimized';
+
+export type DesktopVariant = 'embedded' | 'fullscreen';
+
+const SIZES: Record<DesktopVariant, {
+  menuBar: string;
+  titleBar: string;
+  light: string;
+  content: string;
+  dock: string;
+  dockIcon: string;
+  fishCount: number;
+  fishSize: number;
+  dither: DitherParams;
+}> = {
+  embedded: {
+    menuBar: 'h-5 px-2 gap-3 mb-2 rounded-t text-xs',
+    titleBar: 'h-4 px-1.5 gap-0.5 text-[6px]',
+    light: 'w-1.5 h-1.5',
+    content: 'p-1.5 text-[6px]',
+    dock: 'h-8 gap-1.5 px-2 mt-2',
+    dockIcon: 'w-5 h-5 text-[10px]',
+    fishCount: 18,
+    fishSize: 4,
+    // Mockup windows are tiny, so the full-size filter would smear them
+    dither: { ...DEFAULT_DITHER_PARAMS, scale: 2, blur: 0.6 },
+  },
+  fullscreen: {
+    menuBar: 'h-7 px-4 gap-5 text-sm',
+    titleBar: 'h-7 px-3 gap-1.5 text-xs',
+    light: 'w-3 h-3',
+    content: 'p-4 text-sm',
+    dock: 'h-16 gap-3 px-4 mb-3',
+    dockIcon: 'w-11 h-11 text-2xl',
+    fishCount: 60,
+    fishSize: 7,
+    dither: DEFAULT_DITHER_PARAMS,
+  },
+};
+
+export default function OSDesktop({
+  variant = 'embedded',
+  className = '',
+}: {
+  variant?: DesktopVariant;
+  className?: string;
+}) {
+  const sizes = SIZES[variant];
+  const desktopRef = useRef<HTMLDivElement>(null);
+
+  const [windows, setWindows] = useState<Partial<Record<AppId, WindowState>>>({
+    files: 'open',
+    browser: 'open',
+    notes: 'open',
+  });
+  // Back-to-front stacking order; the last visible window has focus
+  const [stack, setStack] = useState<AppId[]>(['files', 'browser', 'notes']);
+  const { palette } = useTimeOfDay();
+  const copy = useLocale().messages.desktop;
+
+  const focusedId = [...stack].reverse().find((id) => windows[id] === 'open');
+
+  const focus = useCallback((id: AppId) => {
+    if (id !== focusedId) playCue('window-focus');
+    setStack((prev) => [...prev.filter((w) => w !== id), id]);
+  }, [focusedId]);
+
+  const open = useCallback((id: AppId) => {
+    setWindows((prev) => ({ ...prev, [id]: 'open' }));
+    focus(id);
+  }, [focus]);
+
+  const minimize = useCallback((id: AppId) => {
+    setWindows((prev) => ({ ...prev, [id]: 'minimized' }));
+  }, []);
+
+  const close = useCallback((id: AppId) => {
+    setWindows((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    setStack((prev) => prev.filter((w) => w !== id));
+  }, []);
+
+  return (
+    <div className={`flex flex-col ${className}`} style={dayPaletteVariables(palette)} data-no-swipe>
+      {/* Menu bar */}
+      <div className={`bg-chrome-900 flex items-center flex-shrink-0 ${sizes.menuBar}`}>
+        <span className="text-white/60 font-semibold">Mino</span>
+        <span className="text-white/40">{focusedId ? copy.apps[focusedId] : copy.finder}</span>
+        {copy.menu.map((item) => (
+          <span key={item} className="text-white/40">{item}</span>
+        ))}
+      </div>
+
+      {/* Desktop area */}
+      <div ref={desktopRef} className="relative flex-1 min-h-0 bg-gradient-to-b from-tod-sky/40 to-tod-deep rounded overflow-hidden">
+        <div className="absolute inset-0">
+          <BoidsAquarium count={sizes.fishCount} size={sizes.fishSize} color={colors.fern} seed={7} />
+        </div>
+
+        <AnimatePresence>
+          {stack.map((id) => {
+            const app = APPS.find((a) => a.id === id)!;
+            return (
+              <DesktopWindow
+                key={id}
+                app={app}
+                state={windows[id] ?? 'open'}
+                focused={id === focusedId}
+                zIndex={stack.indexOf(id) + 1}
+                sizes={sizes}
+                constraints={desktopRef}
+                onFocus={() => focus(id)}
+                onMinimize={() => minimize(id)}
+                onClose={() => close(id)}
+              />
+            );
+          })}
+        </AnimatePresence>
+      </div>
+
+      {/* Dock */}
+      <div className={`flex items-center justify-center flex-shrink-0 bg-white/10 rounded-lg self-center ${sizes.dock}`}>
+        {APPS.map((app) => (
+          <button
+            key={app.id}
+            onClick={() => open(app.id)}
+            className={`relative bg-white/20 hover:bg-white/30 rounded flex items-center justify-center transition-colors ${sizes.dockIcon}`}
+            title={copy.apps[app.id]}
+          >
+            {app.icon}
+            {/* Running indicator */}
+            {windows[app.id] && (
+              <span className="absolute -bottom-1 left-1/2 -translate-x-1/2 w-1 h-1 rounded-full bg-white/70" />
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// DESKTOP WINDOW
+// Stays mounted while minimized so it keeps its dragged position.
+// ============================================
+
+function DesktopWindow({
+  app,
+  state,
+  focused,
+  zIndex,
+  sizes,
+  constraints,
+  onFocus,
+  onMinimize,
+  onClose,
+}: {
+  app: AppDefinition;
+  state: WindowState;
+  focused: boolean;
+  zIndex: number;
+  sizes: typeof SIZES[DesktopVariant];
+  constraints: React.RefObject<HTMLDivElement>;
+  onFocus: () => void;
+  onMinimize: () => void;
+  onClose: () => void;
+}) {
+  const dragControls = useDragControls();
+  const copy = useLocale().messages.desktop;
+  const minimized = state === 'minimized';
+
+  return (
+    <motion.div
+      className="absolute"
+      style={{
+        left: `${app.frame.x}%`,
+        top: `${app.frame.y}%`,
+        width: `${app.frame.width}%`,
+        height: `${app.frame.height}%`,
+        zIndex,
+        transformOrigin: 'bottom center',
+        pointerEvents: minimized ? 'none' : 'auto',
+      }}
+      drag
+      dragControls={dragControls}
+      dragListener={false}
+      dragConstraints={constraints}
+      dragMomentum={false}
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={minimized ? { opacity: 0, scale: 0.2 } : { opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.9 }}
+      transition={{ duration: 0.25 }}
+      onPointerDown={onFocus}
+    >
+      <Dithered
+        enabled={!focused}
+        params={sizes.dither}
+        className={`h-full flex flex-col rounded overflow-hidden shadow-xl transition-opacity ${
+          focused ? 'bg-chrome-700 border border-white/20' : 'bg-chrome-800/80 opacity-80'
+        }`}
+      >
+        {/* Title bar - drag handle */}
+        <div
+          className={`flex items-center flex-shrink-0 cursor-grab active:cursor-grabbing touch-none ${sizes.titleBar} ${
+            focused ? 'bg-chrome-600' : 'bg-chrome-700/70'
+          }`}
+          onPointerDown={(e) => dragControls.start(e)}
+        >
+          <button
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={onClose}
+            className={`rounded-full bg-tanaka ${sizes.light}`}
+            title={copy.close}
+          />
+          <button
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={onMinimize}
+            className={`rounded-full bg-ochre ${sizes.light}`}
+            title={copy.minimize}
+          />
+          <span className={`rounded-full bg-pine ${sizes.light}`} />
+          <span className="text-white/60 ml-1 truncate">{copy.apps[app.id]}</span>
+        </div>
+
+        <div className={`flex-1 min-h-0 overflow-hidden ${sizes.content}`}>
+          <WindowContent appId={app.id} />
+        </div>
+      </Dithered>
+    </motion.div>
+  );
+}
+
+function WindowContent({ appId }: { appId: AppId }) {
+  const copy = useLocale().messages.desktop;
+
+  switch (appId) {
+    case 'notes':
+      return (
+        <div className="space-y-[0.5em] text-white/70">
+          <p className="font-semibold text-white/90"><Kanji>間</Kanji> — {copy.ma}</p>
+          <p>{copy.maBody}</p>
+          <div className="h-[0.4em] bg-white/20 rounded w-5/6" />
+          <div className="h-[0.4em] bg-white/20 rounded w-2/3" />
+        </div>
+      );
+    case 'files':
+      return (
+        <div className="grid grid-cols-3 gap-[0.6em] text-center text-white/60">
+          {copy.folders.map((name) => (
+            <div key={name}>
+              <div className="text-[1.8em] leading-none">📁</div>
+              <p className="truncate">{name}</p>
+            </div>
+          ))}
+        </div>
+      );
+    case 'browser':
+      return (
+        <div className="h-full flex flex-col gap-[0.6em]">
+          <div className="bg-black/30 rounded px-[0.6em] py-[0.3em] text-white/50 truncate">mino.design/os</div>
+          <div className="flex-1 rounded bg-kraft flex items-center justify-center gap-[0.6em]">
+            <div className="w-[2em] h-[2em] bg-tanaka" />
+            <div className="w-[2em] h-[2em] rounded-full bg-ink" />
+            <div className="w-[2em] h-[2em] bg-pine" />
+          </div>
+        </div>
+      );
+    case 'music':
+      return (
+        <div className="text-white/70">
+          <p className="font-semibold text-white/90">{copy.track}</p>
+          <p className="text-white/40">{copy.trackDetail}</p>
+          <div className="mt-[0.8em] h-[0.3em] bg-white/10 rounded overflow-hidden">
+            <div className="h-full w-2/5 bg-pine" />
+          </div>
+        </div>
+      );
+    case 'settings':
+      return (
+        <div className="space-y-[0.6em] text-white/70">
+          {copy.toggles.map((label) => (
+            <div key={label} className="flex items-center justify-between">
+              <span>{label}</span>
+              <span className="w-[2em] h-[1em] rounded-full bg-pine flex items-center justify-end px-[0.15em]">
+                <span className="w-[0.7em] h-[0.7em] rounded-full bg-white" />
+              </span>
+            </div>
+          ))}
+        </div>
+      );
+  }
+}
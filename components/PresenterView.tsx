@@ -0,0 +1,191 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowRight, ArrowLeft, TimerReset } from 'lucide-react';
+import { SLIDES, type SlideId } from '@/lib/slides';
+import { useDeckSync } from '@/lib/deckSync';
+import { commandForKey, isKeyForControl } from '@/lib/shortcuts';
+import SlideThumbnail from '@/components/SlideThumbnail';
+import { format } from '@/lib/i18n';
+import { useLocale } from '@/lib/useLocale';
+
+// ============================================
+// PRESENTER VIEW
+// Opened from the deck in its own window. Shows the live slide and
+// its build step, what comes next, private notes and how much time
+// is left. Stepping goes through the deck, which owns the position.
+// ============================================
+
+const TALK_DURATION_MS = 20 * 60 * 1000;
+
+function formatDuration(ms: number) {
+  const totalSeconds = Math.floor(Math.abs(ms) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${ms < 0 ? '-' : ''}${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export default function PresenterView() {
+  const [slideId, setSlideId] = useState<SlideId>(SLIDES[0]);
+  const [step, setStep] = useState(0);
+  const [steps, setSteps] = useState(0);
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
+  const { messages } = useLocale();
+
+  const currentSlide = SLIDES.indexOf(slideId);
+  const nextSlideId = SLIDES[currentSlide + 1];
+
+  const postSync = useDeckSync((message) => {
+    if (message.type === 'state') {
+      setSlideId(message.slideId);
+      setStep(message.step);
+      setSteps(message.steps);
+    }
+  });
+
+  // Ask the deck where it is as soon as we open
+  useEffect(() => {
+    postSync({ type: 'request-state' });
+  }, [postSync]);
+
+  const goToSlide = useCallback((index: number) => {
+    if (index >= 0 && index < SLIDES.length) {
+      postSync({ type: 'navigate', slideId: SLIDES[index] });
+    }
+  }, [postSync]);
+
+  const nextSlide = useCallback(() => {
+    postSync({ type: 'step', direction: 'next' });
+  }, [postSync]);
+
+  const prevSlide = useCallback(() => {
+    postSync({ type: 'step', direction: 'prev' });
+  }, [postSync]);
+
+  // Keyboard navigation - same bindings as the deck (lib/shortcuts);
+  // only the commands that move between slides apply here.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || isKeyForControl(e.target, e.key)) return;
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+      switch (commandForKey(e.key)) {
+        case 'next':
+          nextSlide();
+          break;
+        case 'prev':
+          prevSlide();
+          break;
+        case 'first':
+          goToSlide(0);
+          break;
+        case 'last':
+          goToSlide(SLIDES.length - 1);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [nextSlide, prevSlide, goToSlide]);
+
+  // Timer tick
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const elapsed = now - startedAt;
+  const remaining = TALK_DURATION_MS - elapsed;
+
+  return (
+    <div className="h-screen w-screen overflow-hidden bg-night text-white relative p-6 flex gap-6">
+      {/* Current slide */}
+      <div className="flex-[2] flex flex-col gap-3 min-w-0">
+        <p className="text-white/40 text-xs tracking-[0.3em] uppercase">
+          {messages.presenter.current}{' '}
+          <span className="text-white/70 normal-case tracking-normal ml-2">{messages.slideMeta[slideId].title}</span>
+          {steps > 0 && (
+            <span className="text-white/40 normal-case tracking-normal ml-4 tabular-nums">
+              {format(messages.presenter.step, { step, steps })}
+            </span>
+          )}
+        </p>
+        <SlideThumbnail slideId={slideId} className="rounded-lg border border-white/20" />
+
+        <div className="flex items-center gap-4">
+          <button
+            onClick={prevSlide}
+            disabled={currentSlide === 0 && step === 0}
+            className="p-3 text-white/40 hover:text-white disabled:opacity-20 transition-colors"
+            aria-label={messages.a11y.previous}
+          >
+            <ArrowLeft className="w-5 h-5" aria-hidden="true" />
+          </button>
+          <button
+            onClick={nextSlide}
+            disabled={currentSlide === SLIDES.length - 1 && step >= steps}
+            className="p-3 text-white/40 hover:text-white disabled:opacity-20 transition-colors"
+            aria-label={messages.a11y.next}
+          >
+            <ArrowRight className="w-5 h-5" aria-hidden="true" />
+          </button>
+        </div>
+      </div>
+
+      {/* Sidebar */}
+      <div className="flex-1 flex flex-col gap-6 min-w-0 pb-12">
+        <div>
+          <p className="text-white/40 text-xs tracking-[0.3em] uppercase mb-3">{messages.presenter.next}</p>
+          {nextSlideId ? (
+            <SlideThumbnail slideId={nextSlideId} className="rounded border border-white/10 opacity-80" />
+          ) : (
+            <div className="aspect-video rounded border border-white/10 flex items-center justify-center text-white/30 text-sm">
+              {messages.presenter.endOfDeck}
+            </div>
+          )}
+        </div>
+
+        {/* Timer */}
+        <div className="flex items-end gap-8">
+          <div>
+            <p className="text-white/40 text-xs tracking-[0.3em] uppercase mb-1">{messages.presenter.elapsed}</p>
+            <p className="text-4xl font-bold tabular-nums">{formatDuration(elapsed)}</p>
+          </div>
+          <div>
+            <p className="text-white/40 text-xs tracking-[0.3em] uppercase mb-1">{messages.presenter.remaining}</p>
+            <p className={`text-4xl font-bold tabular-nums ${remaining < 0 ? 'text-tanaka' : 'text-white/70'}`}>
+              {formatDuration(remaining)}
+            </p>
+          </div>
+          <button
+            onClick={() => {
+              setStartedAt(Date.now());
+              setNow(Date.now());
+            }}
+            className="p-2 mb-1 text-white/40 hover:text-white transition-colors"
+            title={messages.presenter.resetTimer}
+            aria-label={messages.presenter.resetTimer}
+          >
+            <TimerReset className="w-5 h-5" aria-hidden="true" />
+          </button>
+        </div>
+
+        {/* Speaker notes */}
+        <div className="flex-1 min-h-0 overflow-y-auto p-4 border border-white/10 bg-white/[0.02] rounded-lg">
+          <p className="text-white/40 text-xs tracking-[0.3em] uppercase mb-3">{messages.presenter.notes}</p>
+          <p className="text-lg text-white/80 leading-relaxed">{messages.slideMeta[slideId].notes}</p>
+        </div>
+      </div>
+
+      {/* Slide counter */}
+      <div className="absolute bottom-6 right-6 text-white/30 text-sm tabular-nums">
+        {currentSlide + 1} / {SLIDES.length}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import React from 'react';
+
+// ============================================
+// RICH TEXT
+// Renders catalog copy: **text** becomes emphasis styled by the
+// caller, \n a line break. Enough markup for a translator to move
+// emphasis where their language puts it, and no more.
+// ============================================
+
+export default function RichText({
+  text,
+  emphasis = 'font-bold text-fg',
+}: {
+  text: string;
+  emphasis?: string;
+}) {
+  return (
+    <>
+      {text.split('\n').map((line, i) => (
+        <React.Fragment key={i}>
+          {i > 0 && <br />}
+          {line.split(/\*\*(.+?)\*\*/g).map((part, j) =>
+            j % 2 === 1 ? (
+              <strong key={j} className={emphasis}>{part}</strong>
+            ) : (
+              part
+            )
+          )}
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
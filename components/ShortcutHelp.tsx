@@ -0,0 +1,67 @@
+'use client';
+
+import React, { useEffect, useId, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { SHORTCUTS } from '@/lib/shortcuts';
+import { useLocale } from '@/lib/useLocale';
+import { durations } from '@/lib/tokens';
+
+// ============================================
+// SHORTCUT HELP
+// Every binding from lib/shortcuts, so the overlay can't drift from
+// what the deck actually does. The deck closes it on ? or Escape.
+// Focus moves into the dialog and back to where it was on close.
+// ============================================
+
+export default function ShortcutHelp({ onClose }: { onClose: () => void }) {
+  const { messages } = useLocale();
+  const panelRef = useRef<HTMLDivElement>(null);
+  const titleId = useId();
+
+  useEffect(() => {
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    panelRef.current?.focus();
+    return () => previous?.focus();
+  }, []);
+
+  return (
+    <motion.div
+      className="absolute inset-0 z-[60] bg-night/90 flex items-center justify-center p-12"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: durations.quick }}
+      onClick={onClose}
+    >
+      <div
+        ref={panelRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        className="bg-chrome-panel border border-white/10 rounded-lg p-8 w-full max-w-md outline-none"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 id={titleId} className="text-white font-bold text-lg mb-6">{messages.deck.helpTitle}</h2>
+        <dl className="space-y-3">
+          {SHORTCUTS.map((shortcut) => (
+            <div key={shortcut.command} className="flex items-center justify-between gap-6">
+              <dt className="text-white/60 text-sm">{messages.shortcuts[shortcut.command]}</dt>
+              <dd className="flex gap-1.5 flex-shrink-0">
+                {shortcut.display.map((label) => (
+                  <kbd
+                    key={label}
+                    className="min-w-[1.75rem] px-1.5 py-0.5 rounded border border-white/20 bg-white/5 text-white/80 text-xs text-center font-sans"
+                  >
+                    {label}
+                  </kbd>
+                ))}
+              </dd>
+            </div>
+          ))}
+        </dl>
+        <p className="text-white/30 text-xs mt-6">{messages.deck.helpTouch}</p>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useId, useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Info, Lightbulb, Quote, Bookmark } from 'lucide-react';
+import { durations } from '@/lib/tokens';
+import { useLocale } from '@/lib/useLocale';
+
+// ============================================
+// SIDE NOTE COMPONENT
+// ============================================
+export type NoteType = 'info' | 'insight' | 'quote' | 'tip';
+
+// ============================================
+// SIDE NOTE COLLECTION
+// The handout renders side notes as text beside each slide rather
+// than floating over it. Inside a collector, SideNote registers its
+// content and renders nothing in place.
+// ============================================
+
+export interface CollectedSideNote {
+  id: string;
+  type: NoteType;
+  content: React.ReactNode;
+}
+
+interface SideNoteCollector {
+  register: (note: CollectedSideNote) => void;
+  unregister: (id: string) => void;
+}
+
+export const SideNoteCollectorContext = createContext<SideNoteCollector | null>(null);
+
+export function useSideNoteCollector() {
+  const [notes, setNotes] = useState<CollectedSideNote[]>([]);
+
+  // A repeat id is the same note with new copy: update it in place
+  const register = useCallback((note: CollectedSideNote) => {
+    setNotes((prev) =>
+      prev.some((n) => n.id === note.id)
+        ? prev.map((n) => (n.id === note.id ? note : n))
+        : [...prev, note]
+    );
+  }, []);
+
+  const unregister = useCallback((id: string) => {
+    setNotes((prev) => prev.filter((n) => n.id !== id));
+  }, []);
+
+  const collector = useMemo(() => ({ register, unregister }), [register, unregister]);
+
+  return [notes, collector] as const;
+}
+
+export default function SideNote({
+  children,
+  type = 'info',
+  position = 'right',
+  delay = 0.5
+}: {
+  children: React.ReactNode;
+  type?: NoteType;
+  position?: 'left' | 'right' | 'bottom-left' | 'bottom-right';
+  delay?: number;
+}) {
+  const id = useId();
+  const collector = useContext(SideNoteCollectorContext);
+  const { locale } = useLocale();
+
+  // Side notes are static copy within a language, so re-register when
+  // the locale changes rather than on every render. The first render
+  // is always English; the stored locale arrives in an effect.
+  const contentRef = useRef(children);
+  contentRef.current = children;
+
+  useEffect(() => {
+    if (!collector) return;
+    collector.register({ id, type, content: contentRef.current });
+  }, [collector, id, type, locale]);
+
+  useEffect(() => {
+    if (!collector) return;
+    return () => collector.unregister(id);
+  }, [collector, id]);
+
+  if (collector) return null;
+
+  const icons = {
+    info: <Info className="w-3 h-3" />,
+    insight: <Lightbulb className="w-3 h-3" />,
+    quote: <Quote className="w-3 h-3" />,
+    tip: <Bookmark className="w-3 h-3" />,
+  };
+
+  const colors = {
+    info: 'border-blue-500/30 bg-blue-500/5 text-blue-800 dark:text-blue-300',
+    insight: 'border-yellow-500/30 bg-yellow-500/5 text-yellow-800 dark:text-yellow-300',
+    quote: 'border-purple-500/30 bg-purple-500/5 text-purple-800 dark:text-purple-300',
+    tip: 'border-green-500/30 bg-green-500/5 text-green-800 dark:text-green-300',
+  };
+
+  const positions = {
+    right: 'right-4 top-1/4',
+    left: 'left-4 top-1/4',
+    'bottom-left': 'left-4 bottom-20',
+    'bottom-right': 'right-4 bottom-20',
+  };
+
+  return (
+    <motion.div
+      className={`absolute ${positions[position]} max-w-[200px] p-3 border rounded-lg ${colors[type]} text-xs leading-relaxed z-40`}
+      initial={{ opacity: 0, x: position.includes('right') ? 20 : -20 }}
+      animate={{ opacity: 1, x: 0 }}
+      transition={{ delay, duration: durations.slide }}
+    >
+      <div className="flex items-start gap-2">
+        <span className="mt-0.5 flex-shrink-0 opacity-60">{icons[type]}</span>
+        <span className="opacity-80">{children}</span>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,482 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import Fragment, { useFragmentStep } from '@/components/Fragment';
+import Kanji from '@/components/Kanji';
+import { resolveColor, durations } from '@/lib/tokens';
+import { useLoopTransition } from '@/lib/motion';
+import { divergence, type ComparisonMatrixData } from '@/lib/comparisons';
+import { format } from '@/lib/i18n';
+import { useLocale } from '@/lib/useLocale';
+
+// ============================================
+// SLIDE BLOCKS
+// The visual vocabulary MDX slides are written in. Writers pick
+// blocks and fill in text; the blocks own every Tailwind class.
+// Colors come from theme roles, so blocks follow the deck theme.
+// ============================================
+
+// Every block draws in theme roles (text-fg and friends), so the
+// same slide reads on kraft paper and on the dark canvas.
+const tone = {
+  text: 'text-fg',
+  muted: 'text-fg/60',
+  faint: 'text-fg/40',
+  border: 'border-fg/10',
+  card: 'bg-fg/[0.03] rounded',
+};
+
+// Page frame every MDX slide renders inside
+export function MdxSlide({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="h-full flex items-center justify-center p-12 relative overflow-hidden">
+      <div className="w-full max-w-5xl relative z-10">{children}</div>
+    </div>
+  );
+}
+
+// ============================================
+// TEXT
+// ============================================
+
+// `#` in MDX: the big two-line statement headline
+export function Headline({ children }: { children?: React.ReactNode }) {
+  return (
+    <motion.h1
+      className={`text-5xl md:text-display font-bold text-center mb-6 ${tone.text}`}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: durations.slow }}
+    >
+      {children}
+    </motion.h1>
+  );
+}
+
+// `##` in MDX: the slide title above a grid or table
+export function SlideHeading({ children }: { children?: React.ReactNode }) {
+  return (
+    <motion.h2
+      className={`text-title font-bold text-center mb-12 ${tone.text}`}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      {children}
+    </motion.h2>
+  );
+}
+
+// Intro paragraph under a headline
+export function Lead({ children }: { children?: React.ReactNode }) {
+  return (
+    <motion.p
+      className={`text-lead text-center max-w-2xl mx-auto mb-12 ${tone.muted}`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.3, duration: durations.slow }}
+    >
+      {children}
+    </motion.p>
+  );
+}
+
+// Dimmed second line of a headline
+export function Muted({ children }: { children: React.ReactNode }) {
+  return <span className="opacity-50">{children}</span>;
+}
+
+// Small red uppercase label above a headline
+export function Eyebrow({ children }: { children: React.ReactNode }) {
+  return (
+    <motion.p
+      className="text-tanaka text-sm tracking-[0.4em] uppercase text-center mb-ma-sm"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.6 }}
+    >
+      {children}
+    </motion.p>
+  );
+}
+
+// Closing line under the main content
+export function Footnote({ children }: { children: React.ReactNode }) {
+  return (
+    <motion.p
+      className={`text-sm text-center mt-10 ${tone.faint}`}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ delay: 1.2 }}
+    >
+      {children}
+    </motion.p>
+  );
+}
+
+// Slow breathing glow behind the slide
+export function AmbientPulse() {
+  const loop = useLoopTransition();
+
+  return (
+    <motion.div
+      aria-hidden="true"
+      className="absolute inset-0 -z-10 bg-gradient-radial from-fg/[0.03] to-transparent"
+      animate={{ scale: [1, 1.3, 1] }}
+      transition={loop({ duration: durations.ambient })}
+    />
+  );
+}
+
+// ============================================
+// KANJI
+// ============================================
+
+export function KanjiHeader({
+  kanji,
+  title,
+  subtitle,
+}: {
+  kanji: string;
+  title: string;
+  subtitle?: string;
+}) {
+  const loop = useLoopTransition();
+
+  return (
+    <div className="mb-4">
+      <motion.span
+        className={`text-6xl mb-4 block ${tone.text}`}
+        animate={{ scale: [1, 1.05, 1] }}
+        transition={loop({ duration: 4 })}
+      >
+        <Kanji>{kanji}</Kanji>
+      </motion.span>
+      <h3 className={`text-xl font-bold mb-2 ${tone.text}`}>{title}</h3>
+      {subtitle && <p className={`text-sm ${tone.faint}`}>{subtitle}</p>}
+    </div>
+  );
+}
+
+// ============================================
+// PRINCIPLE CARDS
+// A grid staggers its cards in; each card takes an optional accent
+// bar, kanji header or visual above its title and description.
+// ============================================
+
+const gridVariants = {
+  hidden: {},
+  visible: { transition: { staggerChildren: 0.15 } },
+};
+
+const cardVariants = {
+  hidden: { opacity: 0, y: 20 },
+  visible: { opacity: 1, y: 0, transition: { duration: 0.6 } },
+};
+
+export function PrincipleGrid({
+  columns = 2,
+  children,
+}: {
+  columns?: 2 | 3;
+  children: React.ReactNode;
+}) {
+  return (
+    <motion.div
+      className={`grid gap-6 ${columns === 3 ? 'grid-cols-3' : 'grid-cols-2'}`}
+      variants={gridVariants}
+      initial="hidden"
+      animate="visible"
+    >
+      {children}
+    </motion.div>
+  );
+}
+
+export function PrincipleCard({
+  title,
+  accent,
+  kanji,
+  subtitle,
+  visual,
+  children,
+}: {
+  title: string;
+  accent?: string;
+  kanji?: string;
+  subtitle?: string;
+  visual?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  return (
+    <motion.div variants={cardVariants} className={`p-6 border ${tone.border} ${tone.card} ${kanji ? 'text-center rounded-lg' : ''}`}>
+      {accent && <div className="w-12 h-1 mb-4" style={{ backgroundColor: resolveColor(accent) }} />}
+      {visual && <div className="h-16 flex items-center mb-4">{visual}</div>}
+      {kanji ? (
+        <KanjiHeader kanji={kanji} title={title} subtitle={subtitle} />
+      ) : (
+        <h3 className={`text-xl font-bold mb-2 ${tone.text}`}>{title}</h3>
+      )}
+      <div className={`text-body ${kanji ? tone.muted : tone.faint}`}>{children}</div>
+    </motion.div>
+  );
+}
+
+// ============================================
+// TANAKA VISUALS
+// Small compositions for principle cards.
+// ============================================
+
+export function ShapeTrio() {
+  return (
+    <div className="flex items-center gap-4" aria-hidden="true">
+      <div className="w-12 h-12 rounded-full bg-tanaka" />
+      <div className="w-12 h-12 bg-pine" />
+      <div className="w-0 h-0 border-l-[24px] border-l-transparent border-r-[24px] border-r-transparent border-b-[40px] border-b-ochre" />
+    </div>
+  );
+}
+
+export function ColorFields() {
+  return (
+    <div className="flex h-12 overflow-hidden" aria-hidden="true">
+      <div className="w-16 bg-tanaka" />
+      <div className="w-16 bg-surface-paper" />
+      <div className="w-16 bg-fg" />
+    </div>
+  );
+}
+
+export function GridPattern() {
+  return (
+    <div className="grid grid-cols-4 gap-1" aria-hidden="true">
+      {Array.from({ length: 16 }).map((_, i) => (
+        <div key={i} className={`w-3 h-3 ${i % 3 === 0 ? 'bg-tanaka' : 'bg-fg/20'}`} />
+      ))}
+    </div>
+  );
+}
+
+export function KanjiGlyph({ children }: { children: string }) {
+  return (
+    <span className="text-4xl font-bold text-fg" style={{ fontFamily: 'serif' }}>
+      <Kanji>{children}</Kanji>
+    </span>
+  );
+}
+
+// ============================================
+// COMPARISON MATRIX
+// Renders a matrix from lib/comparisons: one row per aspect, one
+// column per system. Columns toggle on and off live, rows can be
+// sorted by how much the visible systems disagree, and "highlight
+// differences" marks every cell whose trait departs from the first
+// visible column. Arrow keys move between the cells of revealed
+// rows; each row is a build step, revealed top to bottom in the
+// order shown, and the summary under the matrix is the last.
+// ============================================
+
+type MatrixCursor = { aspect: string; system: string | null };
+
+export function ComparisonMatrix({
+  matrix,
+  defaultVisible,
+  children,
+}: {
+  matrix: ComparisonMatrixData;
+  // System ids shown on arrival; every system when omitted
+  defaultVisible?: string[];
+  children?: React.ReactNode;
+}) {
+  const { systems, aspects } = matrix;
+  const copy = useLocale().messages.blocks;
+  const [visibleIds, setVisibleIds] = useState(() => defaultVisible ?? systems.map((system) => system.id));
+  const [highlight, setHighlight] = useState(false);
+  const [sorted, setSorted] = useState(false);
+  const [cursor, setCursor] = useState<MatrixCursor>({ aspect: aspects[0]?.id ?? '', system: null });
+  const cells = useRef(new Map<string, HTMLElement>());
+  const step = useFragmentStep();
+
+  // Matrix order, whatever order the columns were toggled in
+  const visible = systems.filter((system) => visibleIds.includes(system.id));
+  const shownIds = visible.map((system) => system.id);
+  const baseline = visible[0];
+  const rows = sorted
+    ? [...aspects].sort((a, b) => divergence(b, shownIds) - divergence(a, shownIds))
+    : aspects;
+  const revealedRows = Math.min(step, rows.length);
+
+  // A hidden column hands its focus back to the row label, and a row
+  // still to come (or sorted out of reach) hands it to the last one shown
+  const columns = [null, ...shownIds];
+  const cursorRow = rows.findIndex((aspect) => aspect.id === cursor.aspect);
+  const current = {
+    aspect: cursorRow < revealedRows ? cursor.aspect : rows[Math.max(revealedRows - 1, 0)]?.id ?? '',
+    system: cursor.system && shownIds.includes(cursor.system) ? cursor.system : null,
+  };
+
+  const gridStyle = { gridTemplateColumns: `minmax(0, 1fr) repeat(${visible.length}, minmax(0, 1fr))` };
+  const cellKey = (aspect: string, system: string | null) => `${aspect}:${system ?? ''}`;
+
+  const toggleSystem = (id: string) => {
+    setVisibleIds((prev) => (prev.includes(id) ? prev.filter((other) => other !== id) : [...prev, id]));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const row = rows.findIndex((aspect) => aspect.id === current.aspect);
+    const column = columns.indexOf(current.system);
+    let next: [number, number] | null = null;
+    const lastRow = revealedRows - 1;
+    if (lastRow < 0) return;
+
+    switch (e.key) {
+      case 'ArrowUp':
+        next = [Math.max(row - 1, 0), column];
+        break;
+      case 'ArrowDown':
+        next = [Math.min(row + 1, lastRow), column];
+        break;
+      case 'ArrowLeft':
+        next = [row, Math.max(column - 1, 0)];
+        break;
+      case 'ArrowRight':
+        next = [row, Math.min(column + 1, columns.length - 1)];
+        break;
+      case 'Home':
+        next = [e.ctrlKey ? 0 : row, 0];
+        break;
+      case 'End':
+        next = [e.ctrlKey ? lastRow : row, columns.length - 1];
+        break;
+    }
+    if (!next) return;
+
+    // Keep the deck from changing slides while moving through cells
+    e.preventDefault();
+    e.stopPropagation();
+    const target = { aspect: rows[next[0]].id, system: columns[next[1]] };
+    setCursor(target);
+    cells.current.get(cellKey(target.aspect, target.system))?.focus();
+  };
+
+  const cellProps = (aspect: string, system: string | null) => ({
+    ref: (el: HTMLElement | null) => {
+      if (el) cells.current.set(cellKey(aspect, system), el);
+      else cells.current.delete(cellKey(aspect, system));
+    },
+    tabIndex: current.aspect === aspect && current.system === system ? 0 : -1,
+    onFocus: () => setCursor({ aspect, system }),
+  });
+
+  const toggleClass = (on: boolean) =>
+    `px-3 py-1 rounded-full border text-caption transition-colors duration-quick ${
+      on ? `${tone.text} border-fg/40 bg-fg/10` : `${tone.faint} ${tone.border} hover:text-fg/70`
+    }`;
+
+  return (
+    <div>
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-ma-xs mb-ma-sm" data-no-swipe>
+        {systems.map((system) => {
+          const on = visibleIds.includes(system.id);
+          return (
+            <button
+              key={system.id}
+              onClick={() => toggleSystem(system.id)}
+              // The matrix always keeps one column
+              disabled={on && visible.length === 1}
+              aria-pressed={on}
+              className={`${toggleClass(on)} disabled:cursor-not-allowed`}
+            >
+              <span
+                className="inline-block w-2 h-2 rounded-full mr-2"
+                style={{ backgroundColor: resolveColor(system.color), opacity: on ? 1 : 0.4 }}
+              />
+              {system.name}
+            </button>
+          );
+        })}
+        <span className="flex-1" />
+        <button onClick={() => setHighlight((on) => !on)} aria-pressed={highlight} className={toggleClass(highlight)}>
+          {copy.highlightDifferences}
+        </button>
+        <button onClick={() => setSorted((on) => !on)} aria-pressed={sorted} className={toggleClass(sorted)}>
+          {copy.mostDifferentFirst}
+        </button>
+      </div>
+
+      <div
+        role="grid"
+        aria-label={format(copy.matrixLabel, { systems: visible.map((system) => system.name).join(', ') })}
+        onKeyDown={handleKeyDown}
+        data-no-swipe
+      >
+        {/* Headers */}
+        <div role="row" className="grid gap-ma-sm mb-ma-sm" style={gridStyle}>
+          <div role="columnheader" aria-label={copy.aspect} />
+          {visible.map((system) => (
+            <div key={system.id} role="columnheader" className="text-center">
+              <span className="font-bold text-lg" style={{ color: resolveColor(system.color) }}>{system.name}</span>
+              <p className={`text-caption ${tone.faint}`}>
+                {highlight && system === baseline ? copy.baseline : system.subtitle}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {/* Comparison rows - one build step each, in display order */}
+        {rows.map((aspect, position) => {
+          const agreed = divergence(aspect, shownIds) === 1;
+          return (
+            <Fragment
+              key={aspect.id}
+              index={position + 1}
+              className={`border-b ${tone.border}`}
+            >
+              <div
+                role="row"
+                className={`grid gap-ma-sm py-3 transition-opacity duration-quick ${highlight && agreed ? 'opacity-40' : ''}`}
+                style={gridStyle}
+              >
+                <div
+                  role="rowheader"
+                  {...cellProps(aspect.id, null)}
+                  className={`font-medium text-sm flex items-center rounded outline-none focus-visible:ring-2 focus-visible:ring-fg/40 ${tone.muted}`}
+                >
+                  {aspect.label}
+                </div>
+                {visible.map((system) => {
+                  const cell = aspect.cells[system.id];
+                  const color = resolveColor(system.color);
+                  const differs = highlight && cell.trait !== aspect.cells[baseline.id].trait;
+                  return (
+                    <div
+                      key={system.id}
+                      role="gridcell"
+                      {...cellProps(aspect.id, system.id)}
+                      className={`text-sm px-3 py-2 rounded outline-none focus-visible:ring-2 focus-visible:ring-fg/40 transition-opacity duration-quick ${tone.text} ${
+                        highlight && !differs && system !== baseline ? 'opacity-50' : 'opacity-80'
+                      }`}
+                      style={{
+                        backgroundColor: `${color}1a`,
+                        boxShadow: differs ? `inset 0 0 0 2px ${color}` : undefined,
+                      }}
+                    >
+                      {cell.value}
+                    </div>
+                  );
+                })}
+              </div>
+            </Fragment>
+          );
+        })}
+      </div>
+
+      {children && (
+        <Fragment index={aspects.length + 1} className={`mt-ma text-center text-sm ${tone.faint}`}>
+          {children}
+        </Fragment>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import React from 'react';
+import * as slideComponents from '@/components/slides';
+import { MdxSlide } from '@/components/SlideBlocks';
+import { LOCALIZED_MDX_SLIDES, MDX_SLIDES } from '@/content/slides';
+import { getSlide, type SlideId } from '@/lib/slides';
+import { useLocale } from '@/lib/useLocale';
+
+// ============================================
+// SLIDE CONTENT
+// Resolves a registered slide to its component, or to its MDX
+// content inside the shared slide frame, in the deck's language
+// when a translation exists.
+// ============================================
+
+export function SlideContent({ slideId }: { slideId: SlideId }) {
+  const slide = getSlide(slideId);
+  const { locale } = useLocale();
+
+  if ('mdx' in slide) {
+    const Content = (LOCALIZED_MDX_SLIDES[locale]?.[slide.mdx] ?? MDX_SLIDES[slide.mdx]).default;
+    return (
+      <MdxSlide>
+        <Content />
+      </MdxSlide>
+    );
+  }
+
+  const Slide = slideComponents[slide.component];
+  return <Slide />;
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { SECTIONS, SLIDES, getSectionSlides } from '@/lib/slides';
+import SlideThumbnail from '@/components/SlideThumbnail';
+import { useLocale } from '@/lib/useLocale';
+import { durations } from '@/lib/tokens';
+
+// ============================================
+// SLIDE OVERVIEW
+// Chapter grid of live thumbnails. Arrow keys move the highlight,
+// Enter jumps, Escape (or G) closes. The highlight is real focus, so
+// screen readers follow it; closing returns focus where it was.
+// ============================================
+
+const COLUMNS = 4;
+
+export default function SlideOverview({
+  currentSlide,
+  onSelect,
+  onClose,
+}: {
+  currentSlide: number;
+  onSelect: (index: number) => void;
+  onClose: () => void;
+}) {
+  const [highlighted, setHighlighted] = useState(currentSlide);
+  const itemRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const { messages } = useLocale();
+
+  useEffect(() => {
+    itemRefs.current[highlighted]?.focus({ preventScroll: true });
+    itemRefs.current[highlighted]?.scrollIntoView({ block: 'nearest' });
+  }, [highlighted]);
+
+  useEffect(() => {
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    return () => previous?.focus();
+  }, []);
+
+  useEffect(() => {
+    const move = (delta: number) => {
+      setHighlighted((prev) => Math.min(SLIDES.length - 1, Math.max(0, prev + delta)));
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') {
+        e.preventDefault();
+        move(1);
+      } else if (e.key === 'ArrowLeft') {
+        e.preventDefault();
+        move(-1);
+      } else if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        move(COLUMNS);
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        move(-COLUMNS);
+      } else if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        onSelect(highlighted);
+      } else if (e.key === 'Escape' || e.key === 'g' || e.key === 'G') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [highlighted, onSelect, onClose]);
+
+  return (
+    <motion.div
+      className="absolute inset-0 z-[60] bg-night/95 overflow-y-auto p-12"
+      role="dialog"
+      aria-modal="true"
+      aria-label={messages.shortcuts.overview}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: durations.quick }}
+    >
+      <div className="max-w-6xl mx-auto space-y-10">
+        {SECTIONS.map((section) => (
+          <section key={section.id}>
+            <div className="flex items-baseline gap-3 mb-4">
+              <h2 className="text-white font-bold text-lg">{messages.sections[section.id].title}</h2>
+              {messages.sections[section.id].subtitle && (
+                <span className="text-white/40 text-sm">{messages.sections[section.id].subtitle}</span>
+              )}
+            </div>
+
+            <div className="grid grid-cols-4 gap-4">
+              {getSectionSlides(section.id).map((slide) => {
+                const index = SLIDES.indexOf(slide.id);
+                return (
+                  <button
+                    key={slide.id}
+                    ref={(el) => {
+                      itemRefs.current[index] = el;
+                    }}
+                    onClick={() => onSelect(index)}
+                    onMouseEnter={() => setHighlighted(index)}
+                    aria-current={index === currentSlide ? 'step' : undefined}
+                    className={`text-left rounded-lg p-1 outline-none transition-all ${
+                      index === highlighted ? 'ring-2 ring-white' : 'ring-1 ring-white/10'
+                    }`}
+                  >
+                    <SlideThumbnail slideId={slide.id} className="rounded" />
+                    <div className="flex items-center gap-2 px-1 pt-2 pb-1">
+                      <span className="text-white/30 text-xs tabular-nums">{index + 1}</span>
+                      <span className={`text-xs truncate ${index === currentSlide ? 'text-white' : 'text-white/60'}`}>
+                        {messages.slideMeta[slide.id].title}
+                      </span>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </section>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { getSlide, type SlideId } from '@/lib/slides';
+import { themeColor } from '@/lib/tokens';
+import { SlideContent } from '@/components/SlideContent';
+
+// ============================================
+// SLIDE THUMBNAIL
+// Renders a live slide at a fixed 16:9 stage size and scales it
+// down to whatever width the container gives us, or to a fixed
+// scale where layout must not depend on measuring (print).
+// ============================================
+
+const STAGE_WIDTH = 1280;
+const STAGE_HEIGHT = 720;
+
+export default function SlideThumbnail({
+  slideId,
+  scale: fixedScale,
+  className = '',
+}: {
+  slideId: SlideId;
+  scale?: number;
+  className?: string;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [measuredScale, setMeasuredScale] = useState(0);
+  const scale = fixedScale ?? measuredScale;
+
+  // A picture of the slide: its controls are out of the tab order
+  // and out of the accessibility tree (React 18 has no inert prop)
+  const makeInert = useCallback((stage: HTMLDivElement | null) => stage?.setAttribute('inert', ''), []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || fixedScale !== undefined) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setMeasuredScale(entry.contentRect.width / STAGE_WIDTH);
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [fixedScale]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative aspect-video overflow-hidden ${className}`}
+      style={{
+        backgroundColor: themeColor(getSlide(slideId).surface),
+        width: fixedScale !== undefined ? STAGE_WIDTH * fixedScale : undefined,
+      }}
+    >
+      {scale > 0 && (
+        <div
+          ref={makeInert}
+          aria-hidden="true"
+          className="absolute top-0 left-0 pointer-events-none"
+          style={{
+            width: STAGE_WIDTH,
+            height: STAGE_HEIGHT,
+            transform: `scale(${scale})`,
+            transformOrigin: 'top left',
+          }}
+        >
+          <SlideContent slideId={slideId} />
+        </div>
+      )}
+    </div>
+  );
+}
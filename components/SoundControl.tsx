@@ -0,0 +1,42 @@
+'use client';
+
+import React from 'react';
+import { Volume1, Volume2, VolumeX } from 'lucide-react';
+import { updateAudioSettings, useAudioSettings } from '@/lib/audio';
+import { useLocale } from '@/lib/useLocale';
+
+// ============================================
+// SOUND CONTROL
+// Mute button for the deck's audio cues; the volume slider slides
+// out on hover or keyboard focus so it stays out of the way.
+// ============================================
+
+export default function SoundControl() {
+  const { muted, volume } = useAudioSettings();
+  const { messages } = useLocale();
+  const Icon = muted || volume === 0 ? VolumeX : volume < 0.5 ? Volume1 : Volume2;
+
+  return (
+    <div className="group flex items-center" data-no-swipe>
+      <button
+        onClick={() => updateAudioSettings({ muted: !muted })}
+        className="p-2 text-fg/30 hover:text-fg transition-colors"
+        title={muted ? messages.deck.unmute : messages.deck.mute}
+        aria-label={muted ? messages.deck.unmute : messages.deck.mute}
+      >
+        <Icon className="w-4 h-4" aria-hidden="true" />
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={volume}
+        disabled={muted}
+        onChange={(e) => updateAudioSettings({ volume: Number(e.target.value) })}
+        className="w-0 opacity-0 group-hover:w-20 group-hover:opacity-100 focus:w-20 focus:opacity-100 transition-all duration-quick accent-tod-accent disabled:cursor-not-allowed"
+        aria-label={messages.deck.volume}
+      />
+    </div>
+  );
+}
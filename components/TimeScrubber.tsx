@@ -0,0 +1,70 @@
+'use client';
+
+import React from 'react';
+import { Clock } from 'lucide-react';
+import {
+  DAY_PALETTES,
+  MINUTES_PER_DAY,
+  formatMinutes,
+  pinTimeOfDay,
+  useTimeOfDay,
+  type DayPhase,
+} from '@/lib/timeOfDay';
+import { useLocale } from '@/lib/useLocale';
+
+// ============================================
+// TIME SCRUBBER
+// Drags the deck through a day for demos. Moving the slider pins the
+// clock; Live hands it back to the real time.
+// ============================================
+
+const PHASES: DayPhase[] = ['dawn', 'day', 'dusk', 'night'];
+
+export default function TimeScrubber({ className = '' }: { className?: string }) {
+  const { minutes, live, phase } = useTimeOfDay();
+  const copy = useLocale().messages.controls;
+
+  return (
+    <div
+      className={`w-72 p-4 rounded-lg bg-night/80 border border-white/10 text-white backdrop-blur ${className}`}
+      data-no-swipe
+    >
+      <div className="flex items-center justify-between mb-3">
+        <span className="flex items-center gap-2 text-sm tabular-nums">
+          <Clock className="w-4 h-4 text-tod-accent" />
+          {formatMinutes(minutes)}
+          <span className="text-white/40 capitalize">{copy.phases[phase]}</span>
+        </span>
+        <button
+          onClick={() => pinTimeOfDay(null)}
+          disabled={live}
+          className="text-xs px-2 py-0.5 rounded border border-white/20 text-white/60 hover:text-white disabled:opacity-30 transition-colors"
+        >
+          {copy.live}
+        </button>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={MINUTES_PER_DAY - 1}
+        step={5}
+        value={minutes}
+        onChange={(e) => pinTimeOfDay(Number(e.target.value))}
+        className="w-full accent-tod-accent"
+        aria-label={copy.timeOfDay}
+      />
+
+      <div className="flex gap-1 mt-2">
+        {PHASES.map((name) => (
+          <span
+            key={name}
+            className="h-1 flex-1 rounded-full"
+            style={{ backgroundColor: DAY_PALETTES[name].accent }}
+            title={copy.phases[name]}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import {
+  pressVirtualButton,
+  releaseVirtualButton,
+  releaseAllVirtualButtons,
+  type GamepadButton,
+} from '@/lib/gamepad';
+
+// ============================================
+// VIRTUAL GAMEPAD
+// An on-screen standard-mapping pad. Holding a button here is the
+// same as holding it on hardware: the shared poller picks it up.
+// ============================================
+
+function PadButton({
+  button,
+  label,
+  className = '',
+}: {
+  button: GamepadButton;
+  label: string;
+  className?: string;
+}) {
+  return (
+    <button
+      type="button"
+      title={button}
+      // Don't steal focus: the console only listens while it has it
+      onMouseDown={(e) => e.preventDefault()}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        pressVirtualButton(button);
+      }}
+      onPointerUp={() => releaseVirtualButton(button)}
+      onPointerCancel={() => releaseVirtualButton(button)}
+      className={`flex items-center justify-center text-xs font-bold select-none touch-none transition-colors bg-white/10 text-white/60 hover:bg-white/20 active:bg-white active:text-black ${className}`}
+    >
+      {label}
+    </button>
+  );
+}
+
+export default function VirtualGamepad({ className = '' }: { className?: string }) {
+  // Never leave a button stuck down when the pad goes away
+  useEffect(() => releaseAllVirtualButtons, []);
+
+  return (
+    <div className={`inline-flex flex-col gap-3 p-4 rounded-3xl bg-chrome-pad border border-white/10 ${className}`}>
+      {/* Shoulders */}
+      <div className="flex justify-between">
+        <PadButton button="l1" label="L1" className="w-12 h-6 rounded-md" />
+        <PadButton button="r1" label="R1" className="w-12 h-6 rounded-md" />
+      </div>
+
+      <div className="flex items-center gap-6">
+        {/* D-pad */}
+        <div className="grid grid-cols-3 grid-rows-3 w-24 h-24">
+          <PadButton button="up" label="▲" className="col-start-2 rounded-t-md" />
+          <PadButton button="left" label="◀" className="row-start-2 rounded-l-md" />
+          <PadButton button="right" label="▶" className="row-start-2 col-start-3 rounded-r-md" />
+          <PadButton button="down" label="▼" className="row-start-3 col-start-2 rounded-b-md" />
+        </div>
+
+        {/* Share / Options */}
+        <div className="flex gap-2">
+          <PadButton button="share" label="SHARE" className="px-1.5 h-5 rounded-sm text-[8px]" />
+          <PadButton button="options" label="OPTIONS" className="px-1.5 h-5 rounded-sm text-[8px]" />
+        </div>
+
+        {/* Face buttons */}
+        <div className="grid grid-cols-3 grid-rows-3 w-24 h-24 gap-0.5">
+          <PadButton button="triangle" label="△" className="col-start-2 rounded-full" />
+          <PadButton button="square" label="□" className="row-start-2 rounded-full" />
+          <PadButton button="circle" label="○" className="row-start-2 col-start-3 rounded-full" />
+          <PadButton button="cross" label="✕" className="row-start-3 col-start-2 rounded-full" />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,1591 @@
+'use client';
+
+import React, { useId, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowRight, Circle, Square, Minus } from 'lucide-react';
+import SideNote from '@/components/SideNote';
+import Fragment from '@/components/Fragment';
+import BoidsAquarium, { BoidsControls } from '@/components/BoidsAquarium';
+import { DEFAULT_BOIDS_PARAMS } from '@/lib/boids';
+import { DitherControls, DitherSplitView, DEFAULT_DITHER_PARAMS } from '@/components/DitherFilter';
+import OSDesktop from '@/components/OSDesktop';
+import OS2Console from '@/components/OS2Console';
+import InfluenceGraph from '@/components/InfluenceGraph';
+import Kanji from '@/components/Kanji';
+import RichText from '@/components/RichText';
+import { chrome, colors, durations, themeColor } from '@/lib/tokens';
+import { useLoopTransition } from '@/lib/motion';
+import { useLocale } from '@/lib/useLocale';
+
+// ============================================
+// INDIVIDUAL SLIDES
+// ============================================
+
+export function SlideTitle() {
+  const loop = useLoopTransition();
+  const copy = useLocale().messages.slides.title;
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full px-8 relative overflow-hidden">
+      {/* Background pulse */}
+      <motion.div
+        aria-hidden="true"
+        className="absolute inset-0 bg-gradient-radial from-surface-twilight to-transparent opacity-50"
+        animate={{ scale: [1, 1.2, 1], opacity: [0.3, 0.5, 0.3] }}
+        transition={loop({ duration: durations.ambient })}
+      />
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2, duration: durations.slow }}
+        className="text-center relative z-10"
+      >
+        {/* Japanese geometric motif */}
+        <div className="flex items-center justify-center gap-6 mb-12" aria-hidden="true">
+          <motion.div
+            className="w-16 h-16 bg-tanaka"
+            animate={{ rotate: [0, 90, 0] }}
+            transition={loop({ duration: durations.ambient, ease: 'easeInOut' })}
+          />
+          <motion.div
+            className="w-16 h-16 rounded-full bg-fg"
+            animate={{ scale: [1, 1.1, 1] }}
+            transition={loop({ duration: 4, ease: 'easeInOut' })}
+          />
+          <motion.div
+            className="w-16 h-16 bg-pine"
+            animate={{ rotate: [0, -90, 0] }}
+            transition={loop({ duration: durations.ambient, ease: 'easeInOut' })}
+          />
+        </div>
+
+        <motion.p
+          className="text-sm text-tanaka tracking-[0.4em] uppercase mb-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.5 }}
+        >
+          {copy.eyebrow}
+        </motion.p>
+
+        <h1 className="text-7xl md:text-8xl font-bold text-fg mb-4">
+          {copy.headline}
+        </h1>
+        <motion.p
+          className="text-3xl text-fg/70 mb-2"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.8 }}
+        >
+          {copy.lead}
+        </motion.p>
+        <motion.p
+          className="text-lg text-fg/40 mt-8 tracking-[0.2em]"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 1.2 }}
+        >
+          <RichText text={copy.tagline} emphasis="font-normal text-fg/60" />
+        </motion.p>
+      </motion.div>
+
+      {/* Side notes */}
+      <SideNote type="insight" position="right" delay={1.5}>
+        {copy.insight}
+      </SideNote>
+      <SideNote type="quote" position="left" delay={1.8}>
+        {copy.quote}
+      </SideNote>
+      <SideNote type="tip" position="bottom-right" delay={2.1}>
+        {copy.tip}
+      </SideNote>
+    </div>
+  );
+}
+
+export function SlideTwoSolutions() {
+  const loop = useLoopTransition();
+  const { messages } = useLocale();
+  const copy = messages.slides.twoSolutions;
+
+  return (
+    <div className="flex h-full relative overflow-hidden">
+      {/* Background pulse effect */}
+      <motion.div
+        aria-hidden="true"
+        className="absolute inset-0 bg-gradient-radial from-fg/5 to-transparent"
+        animate={{ scale: [1, 1.5, 1], opacity: [0.1, 0.2, 0.1] }}
+        transition={loop({ duration: 10 })}
+      />
+
+      {/* Top header - provocative statement */}
+      <motion.div
+        className="absolute top-8 left-0 right-0 text-center z-20"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.3 }}
+      >
+        <p className="text-tanaka text-sm tracking-[0.3em] uppercase mb-2">{copy.eyebrow}</p>
+        <h2 className="text-4xl font-bold text-fg">
+          <RichText text={copy.headline} emphasis="text-fg/50" />
+        </h2>
+      </motion.div>
+
+      {/* Left: OS - Desktop */}
+      <motion.div
+        className="w-1/2 h-full flex flex-col items-center justify-center p-12 pt-32 relative bg-surface-harbor"
+        initial={{ x: '-100%' }}
+        animate={{ x: 0 }}
+        transition={{ duration: 0.6, ease: [0.25, 0.1, 0.25, 1] }}
+      >
+        <div className="text-center">
+          {/* Desktop icon with glow */}
+          <div className="relative w-32 h-24 mx-auto mb-8" aria-hidden="true">
+            <motion.div
+              className="absolute inset-0 bg-pine/30 rounded-lg blur-xl"
+              animate={{ scale: [1, 1.2, 1], opacity: [0.3, 0.5, 0.3] }}
+              transition={loop({ duration: 3 })}
+            />
+            <div className="absolute inset-0 bg-chrome-900 rounded-lg border border-fg/20">
+              <div className="h-4 bg-chrome-800 rounded-t-lg flex items-center px-2 gap-1">
+                <div className="w-2 h-2 rounded-full bg-tanaka" />
+                <div className="w-2 h-2 rounded-full bg-ochre" />
+                <div className="w-2 h-2 rounded-full bg-pine" />
+              </div>
+            </div>
+            {/* Fish swimming */}
+            <motion.div
+              className="absolute bottom-2 left-4 text-lg"
+              animate={{ x: [0, 80, 0] }}
+              transition={loop({ duration: 4, ease: 'easeInOut' })}
+            >
+              🐟
+            </motion.div>
+          </div>
+          <h2 className="text-5xl font-bold text-fg mb-2">
+            OS
+          </h2>
+          <p className="text-pine text-lg font-light tracking-wide">
+            {copy.osTagline}
+          </p>
+          <p className="text-fg/50 mt-4 text-sm max-w-[250px] mx-auto leading-relaxed">
+            <RichText text={copy.osPitch} emphasis="font-normal text-fg/70" />
+          </p>
+        </div>
+
+        {/* Side notes for OS */}
+        <motion.div
+          className="absolute bottom-20 left-4 max-w-[200px] p-3 border border-pine/40 bg-pine/10 rounded-lg text-xs text-fern"
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: 0.8 }}
+        >
+          <span className="font-semibold block mb-1">{messages.common.whyItMatters}</span>
+          <span className="opacity-80">{copy.osWhy}</span>
+        </motion.div>
+
+        {/* Decorative elements */}
+        <motion.div
+          aria-hidden="true"
+          className="absolute top-32 left-8 w-8 h-8 border-2 border-pine/30"
+          animate={{ rotate: [0, 90, 0] }}
+          transition={loop({ duration: durations.ambient })}
+        />
+        <div className="absolute bottom-12 right-12 w-12 h-12 rounded-full border-2 border-pine/20" aria-hidden="true" />
+      </motion.div>
+
+      {/* Right: OS2 - Console */}
+      <motion.div
+        className="w-1/2 h-full flex flex-col items-center justify-center p-12 pt-32 relative bg-surface-console"
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        transition={{ duration: 0.6, ease: [0.25, 0.1, 0.25, 1] }}
+      >
+        <div className="text-center">
+          {/* PS4-style tiles with glow */}
+          <div className="relative">
+            <motion.div
+              aria-hidden="true"
+              className="absolute inset-0 bg-ps4/20 blur-2xl"
+              animate={{ scale: [1, 1.3, 1], opacity: [0.2, 0.4, 0.2] }}
+              transition={loop({ duration: 4 })}
+            />
+            <div className="flex items-end justify-center gap-2 mb-8 relative">
+              {['魚', '端', '書', '映'].map((kanji, i) => (
+                <motion.div
+                  key={kanji}
+                  className={`flex items-center justify-center rounded ${
+                    i === 0 ? 'w-14 h-14 bg-ps4 border border-fg/30' : 'w-10 h-10 bg-fg/10'
+                  }`}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.3 + i * 0.1 }}
+                >
+                  <span className={`${i === 0 ? 'text-xl text-white' : 'text-sm text-fg/50'}`}>
+                    <Kanji>{kanji}</Kanji>
+                  </span>
+                </motion.div>
+              ))}
+            </div>
+          </div>
+          <h2 className="text-5xl font-bold text-fg mb-2">
+            OS2
+          </h2>
+          <p className="text-ps4 text-lg font-light tracking-wide">
+            {copy.os2Tagline}
+          </p>
+          <p className="text-fg/50 mt-4 text-sm max-w-[250px] mx-auto leading-relaxed">
+            <RichText text={copy.os2Pitch} emphasis="font-normal text-fg/70" />
+          </p>
+        </div>
+
+        {/* Side notes for OS2 */}
+        <motion.div
+          className="absolute bottom-20 right-4 max-w-[200px] p-3 border border-ps4/40 bg-ps4/10 rounded-lg text-xs text-periwinkle"
+          initial={{ opacity: 0, x: 20 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: 1 }}
+        >
+          <span className="font-semibold block mb-1">{messages.common.whyItMatters}</span>
+          <span className="opacity-80">{copy.os2Why}</span>
+        </motion.div>
+
+        {/* Decorative elements */}
+        <motion.div
+          aria-hidden="true"
+          className="absolute top-32 right-8 w-8 h-8 rounded-full bg-ps4/30"
+          animate={{ scale: [1, 1.2, 1], opacity: [0.3, 0.6, 0.3] }}
+          transition={loop({ duration: 3 })}
+        />
+        <div className="absolute bottom-12 left-12 w-12 h-1 bg-fg/10" aria-hidden="true" />
+      </motion.div>
+
+      {/* Center divider with insight */}
+      <motion.div
+        className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-10"
+        initial={{ opacity: 0, scale: 0 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ delay: 1.2 }}
+      >
+        <div className="w-16 h-16 rounded-full bg-surface-canvas border border-fg/20 flex items-center justify-center">
+          <span className="text-2xl text-fg/80"><Kanji>間</Kanji></span>
+        </div>
+      </motion.div>
+
+      {/* Bottom provocation */}
+      <motion.div
+        className="absolute bottom-8 left-0 right-0 text-center z-20"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 1.5 }}
+      >
+        <p className="text-fg/40 text-sm">
+          <RichText text={copy.footer} emphasis="font-normal text-fg/60" />
+        </p>
+      </motion.div>
+    </div>
+  );
+}
+
+export function SlideTanakaIntro() {
+  const copy = useLocale().messages.slides.tanakaIntro;
+
+  return (
+    <div className="h-full flex items-center justify-center p-16">
+      <div className="max-w-4xl">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: durations.slow }}
+        >
+          <div className="flex items-center gap-6 mb-12">
+            <div className="w-20 h-20 bg-tanaka" aria-hidden="true" />
+            <div>
+              <h2 className="text-5xl font-bold text-fg"><Kanji>田中一光</Kanji></h2>
+              <p className="text-xl text-fg/60 mt-2">{copy.name}</p>
+            </div>
+          </div>
+
+          <blockquote className="text-3xl text-fg/80 leading-relaxed font-light border-l-4 border-tanaka pl-8 mb-12">
+            {copy.quote}
+          </blockquote>
+
+          <div className="grid grid-cols-3 gap-8 text-center">
+            <div className="p-6 bg-fg/5">
+              <p className="text-4xl font-bold text-tanaka">MUJI</p>
+              <p className="text-fg/60 mt-2">{copy.mujiCaption}</p>
+            </div>
+            <div className="p-6 bg-fg/5">
+              <p className="text-4xl font-bold text-fg"><Kanji>無印良品</Kanji></p>
+              <p className="text-fg/60 mt-2">{copy.mujiNameCaption}</p>
+            </div>
+            <div className="p-6 bg-fg/5">
+              <p className="text-4xl font-bold text-pine">{copy.rinpa}</p>
+              <p className="text-fg/60 mt-2">{copy.rinpaCaption}</p>
+            </div>
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
+
+export function SlideTanakaVisual() {
+  const { messages } = useLocale();
+  const copy = messages.slides.tanakaVisual;
+  const diagram = messages.a11y.diagrams.tanaka;
+  const id = useId();
+
+  return (
+    <div className="h-full flex items-center justify-center">
+      {/* Tanaka-style composition */}
+      <svg
+        viewBox="0 0 800 600"
+        className="w-full max-w-4xl h-auto text-fg"
+        role="img"
+        aria-labelledby={`${id}-title`}
+        aria-describedby={`${id}-desc`}
+      >
+        <title id={`${id}-title`}>{diagram.title}</title>
+        <desc id={`${id}-desc`}>{diagram.desc}</desc>
+        {/* Background elements */}
+        <motion.circle
+          cx="400"
+          cy="250"
+          r="180"
+          fill={themeColor('paper')}
+          initial={{ scale: 0 }}
+          animate={{ scale: 1 }}
+          transition={{ duration: durations.slow, ease: [0.25, 0.1, 0.25, 1] }}
+        />
+
+        {/* Red accent rectangle */}
+        <motion.rect
+          x="100"
+          y="80"
+          width="600"
+          height="60"
+          fill={colors.tanaka}
+          initial={{ scaleX: 0 }}
+          animate={{ scaleX: 1 }}
+          transition={{ delay: 0.3, duration: 0.6 }}
+          style={{ transformOrigin: 'left' }}
+        />
+
+        {/* Body rectangle */}
+        <motion.rect
+          x="300"
+          y="350"
+          width="200"
+          height="220"
+          fill="currentColor"
+          initial={{ scaleY: 0 }}
+          animate={{ scaleY: 1 }}
+          transition={{ delay: 0.5, duration: 0.6 }}
+          style={{ transformOrigin: 'top' }}
+        />
+
+        {/* Small squares */}
+        <motion.rect
+          x="140"
+          y="380"
+          width="50"
+          height="50"
+          fill={colors.tanaka}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.7 }}
+        />
+        <motion.rect
+          x="610"
+          y="380"
+          width="50"
+          height="50"
+          fill={colors.tanaka}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.8 }}
+        />
+
+        {/* Diagonal line */}
+        <motion.line
+          x1="140"
+          y1="520"
+          x2="660"
+          y2="460"
+          stroke={colors.pine}
+          strokeWidth="8"
+          initial={{ pathLength: 0 }}
+          animate={{ pathLength: 1 }}
+          transition={{ delay: 0.9, duration: 0.6 }}
+        />
+
+        {/* Text overlay */}
+        <motion.text
+          x="400"
+          y="560"
+          textAnchor="middle"
+          fill="currentColor"
+          fontSize="24"
+          fontWeight="bold"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 0.3 }}
+          transition={{ delay: 1.2 }}
+        >
+          {copy.caption}
+        </motion.text>
+      </svg>
+    </div>
+  );
+}
+
+export function SlidePS4Intro() {
+  const loop = useLoopTransition();
+  const copy = useLocale().messages.slides.ps4Intro;
+
+  return (
+    <div className="h-full flex items-center justify-center p-16">
+      <div className="max-w-4xl">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: durations.slow }}
+        >
+          {/* PS4 symbols */}
+          <div className="flex items-center gap-8 mb-12" aria-hidden="true">
+            <motion.div
+              className="w-12 h-12 border-2 border-aqua rotate-45"
+              animate={{ rotate: [45, 135, 45] }}
+              transition={loop({ duration: 4, ease: 'easeInOut' })}
+            />
+            <motion.div
+              className="w-12 h-12 rounded-full border-2 border-coral"
+              animate={{ scale: [1, 1.1, 1] }}
+              transition={loop({ duration: 2 })}
+            />
+            <div className="w-12 h-12 flex items-center justify-center">
+              <div className="w-10 h-10 border-t-2 border-l-2 border-jade -rotate-45" />
+            </div>
+            <Square className="w-10 h-10 text-blossom" strokeWidth={2} />
+          </div>
+
+          <h2 className="text-5xl font-bold text-fg mb-6">{copy.heading}</h2>
+          <p className="text-xl text-fg/60 mb-12">
+            {copy.lead}
+          </p>
+
+          <blockquote className="text-2xl text-fg/70 leading-relaxed font-light border-l-4 border-ps4 pl-8 mb-12">
+            {copy.quote}
+          </blockquote>
+
+          <div className="grid grid-cols-3 gap-6 text-center">
+            <div className="p-4 bg-fg/5 rounded">
+              <p className="text-3xl font-bold text-aqua">110M+</p>
+              <p className="text-fg/40 mt-2">{copy.unitsSold}</p>
+            </div>
+            <div className="p-4 bg-fg/5 rounded">
+              <p className="text-3xl font-bold text-fg">2013</p>
+              <p className="text-fg/40 mt-2">{copy.launchYear}</p>
+            </div>
+            <div className="p-4 bg-fg/5 rounded">
+              <p className="text-3xl font-bold text-ps4">{copy.zen}</p>
+              <p className="text-fg/40 mt-2">{copy.philosophy}</p>
+            </div>
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
+
+export function SlidePS4Visual() {
+  const copy = useLocale().messages.slides.ps4Visual;
+
+  return (
+    <div className="h-full flex flex-col items-center justify-center p-12">
+      {/* PS4-style horizontal menu recreation */}
+      <div className="w-full max-w-4xl">
+        {/* Content preview area */}
+        <motion.div
+          className="w-full aspect-video bg-gradient-to-br from-surface-twilight to-surface-console rounded-lg mb-8 flex items-center justify-center"
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={{ duration: 0.6 }}
+        >
+          <p className="text-fg/20 text-xl">{copy.preview}</p>
+        </motion.div>
+
+        {/* Menu tiles */}
+        <div className="flex items-end gap-4 justify-center">
+          {copy.tiles.map((label, i) => (
+            <motion.div
+              key={i}
+              initial={{ opacity: 0, y: 30 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.3 + i * 0.1, duration: durations.slide }}
+              className={`flex flex-col items-center ${i === 0 ? 'scale-110' : ''}`}
+            >
+              <div
+                className={`w-20 h-20 flex items-center justify-center rounded ${
+                  i === 0 ? 'bg-ps4 border-2 border-fg/80' : 'bg-fg/10'
+                }`}
+              >
+                <span className={`text-2xl ${i === 0 ? 'text-white' : 'text-fg/50'}`} aria-hidden="true">
+                  {['🎮', '🎬', '🛒', '⚙️'][i]}
+                </span>
+              </div>
+              <span className={`mt-2 text-sm ${i === 0 ? 'text-fg' : 'text-fg/40'}`}>
+                {label}
+              </span>
+            </motion.div>
+          ))}
+        </div>
+      </div>
+
+      <motion.p
+        className="text-fg/30 text-sm mt-12"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 1 }}
+      >
+        {copy.caption}
+      </motion.p>
+    </div>
+  );
+}
+
+export function SlideMaConcept() {
+  const copy = useLocale().messages.slides.maConcept;
+
+  return (
+    <div className="h-full flex items-center justify-center p-12">
+      <div className="max-w-5xl">
+        <div className="flex items-start gap-16">
+          {/* Left: Concept */}
+          <motion.div
+            className="flex-1"
+            initial={{ opacity: 0, x: -30 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ duration: durations.slow }}
+          >
+            <span className="text-[180px] font-bold text-fg leading-none"><Kanji>間</Kanji></span>
+            <h2 className="text-4xl font-bold text-fg mt-4">{copy.name}</h2>
+            <p className="text-fg/60 text-xl mt-2">{copy.gloss}</p>
+          </motion.div>
+
+          {/* Right: Explanation */}
+          <motion.div
+            className="flex-1 pt-8"
+            initial={{ opacity: 0, x: 30 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: 0.3, duration: durations.slow }}
+          >
+            <p className="text-2xl text-fg/80 leading-relaxed mb-8">
+              {copy.lead}
+            </p>
+
+            <div className="space-y-6">
+              <div className="flex items-center gap-4">
+                <div className="w-16 h-16 bg-tanaka" aria-hidden="true" />
+                <Minus className="w-8 h-8 text-fg/30" aria-hidden="true" />
+                <div className="w-16 h-16 bg-tanaka" aria-hidden="true" />
+                <p className="text-fg/60 ml-4">{copy.relationship}</p>
+              </div>
+
+              <div className="flex items-center gap-4">
+                <div className="w-16 h-16 border-2 border-fg/30" aria-hidden="true" />
+                <p className="text-fg/60 ml-4">{copy.tanaka}</p>
+              </div>
+
+              <div className="flex items-center gap-4">
+                <div className="w-16 h-4 bg-fg/10 rounded" aria-hidden="true" />
+                <p className="text-fg/60 ml-4">{copy.ps4}</p>
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function SlideSynthesis() {
+  const copy = useLocale().messages.slides.synthesis;
+
+  return (
+    <div className="h-full flex items-center justify-center p-12">
+      <div className="max-w-5xl w-full">
+        <motion.h2
+          className="text-4xl font-bold text-fg mb-12 text-center"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+        >
+          {copy.heading}
+        </motion.h2>
+
+        <div className="grid grid-cols-2 gap-12">
+          {/* What we take from Tanaka */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+            className="p-8 border border-tanaka/30 bg-tanaka/5"
+          >
+            <h3 className="text-2xl font-bold text-tanaka mb-6">{copy.fromTanaka}</h3>
+            <ul className="space-y-4 text-fg/70">
+              {copy.tanakaPoints.map((point) => (
+                <li key={point} className="flex items-start gap-3">
+                  <div className="w-2 h-2 bg-tanaka mt-2 flex-shrink-0" aria-hidden="true" />
+                  <span>{point}</span>
+                </li>
+              ))}
+            </ul>
+          </motion.div>
+
+          {/* What we take from PS4 */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.4 }}
+            className="p-8 border border-ps4/30 bg-ps4/5"
+          >
+            <h3 className="text-2xl font-bold text-ps4 mb-6">{copy.fromPs4}</h3>
+            <ul className="space-y-4 text-fg/70">
+              {copy.ps4Points.map((point) => (
+                <li key={point} className="flex items-start gap-3">
+                  <div className="w-2 h-2 bg-ps4 mt-2 flex-shrink-0" aria-hidden="true" />
+                  <span>{point}</span>
+                </li>
+              ))}
+            </ul>
+          </motion.div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function SlideImprovements() {
+  const copy = useLocale().messages.slides.improvements;
+
+  return (
+    <div className="h-full flex items-center justify-center p-12">
+      <div className="max-w-4xl w-full">
+        <motion.h2
+          className="text-4xl font-bold text-fg mb-12 text-center"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+        >
+          {copy.heading}
+        </motion.h2>
+
+        <div className="space-y-6">
+          {copy.items.map((item, i) => (
+            <motion.div
+              key={i}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: i * 0.15 }}
+              className="flex items-stretch gap-6 p-6 bg-fg/[0.02] border border-fg/10"
+            >
+              <div className="flex-1">
+                <h3 className="text-lg font-bold text-fg mb-2">{item.title}</h3>
+                <div className="flex items-center gap-4">
+                  <div className="flex-1">
+                    <p className="text-fg/30 text-sm">{copy.current}</p>
+                    <p className="text-fg/50">{item.current}</p>
+                  </div>
+                  <ArrowRight className="w-5 h-5 text-fg/20" aria-hidden="true" />
+                  <div className="flex-1">
+                    <p className="text-pine text-sm">{copy.improved}</p>
+                    <p className="text-fg/70">{item.improved}</p>
+                  </div>
+                </div>
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function SlideConclusion() {
+  const loop = useLoopTransition();
+  const copy = useLocale().messages.slides.conclusion;
+
+  return (
+    <div className="h-full flex flex-col items-center justify-center p-12 relative overflow-hidden">
+      {/* Dramatic background animation */}
+      <motion.div
+        aria-hidden="true"
+        className="absolute inset-0"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ duration: 2 }}
+      >
+        <motion.div
+          className="absolute inset-0 bg-gradient-radial from-tanaka/10 to-transparent"
+          animate={{ scale: [1, 1.5, 1], opacity: [0.1, 0.2, 0.1] }}
+          transition={loop({ duration: durations.ambient })}
+        />
+        <motion.div
+          className="absolute inset-0 bg-gradient-radial from-ps4/10 to-transparent"
+          animate={{ scale: [1.5, 1, 1.5], opacity: [0.1, 0.2, 0.1] }}
+          transition={loop({ duration: durations.ambient, delay: 4 })}
+        />
+      </motion.div>
+
+      <motion.div
+        className="text-center max-w-4xl relative z-10"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: durations.slow }}
+      >
+        {/* Provocative opening */}
+        <motion.p
+          className="text-tanaka text-sm tracking-[0.4em] uppercase mb-6"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.3 }}
+        >
+          {copy.eyebrow}
+        </motion.p>
+
+        {/* Combined motif - animated */}
+        <div className="flex items-center justify-center gap-6 mb-10">
+          <motion.div
+            aria-hidden="true"
+            className="w-16 h-16 bg-tanaka"
+            animate={{ rotate: [0, 45, 0] }}
+            transition={loop({ duration: 6, ease: 'easeInOut' })}
+          />
+          <motion.div
+            className="w-20 h-20 rounded-full border-2 border-fg/60 flex items-center justify-center"
+            animate={{ scale: [1, 1.1, 1] }}
+            transition={loop({ duration: 4 })}
+          >
+            <span className="text-4xl text-fg"><Kanji>間</Kanji></span>
+          </motion.div>
+          <motion.div
+            aria-hidden="true"
+            className="w-16 h-16 bg-ps4"
+            animate={{ rotate: [0, -45, 0] }}
+            transition={loop({ duration: 6, ease: 'easeInOut' })}
+          />
+        </div>
+
+        <h2 className="text-6xl md:text-7xl font-bold text-fg mb-6">
+          <RichText text={copy.headline} emphasis="text-fg/50" />
+        </h2>
+
+        <Fragment index={1} className="mb-8">
+          <p className="text-2xl text-fg/60 leading-relaxed max-w-2xl mx-auto">
+            <RichText text={copy.body} emphasis="font-normal text-fg" />
+          </p>
+        </Fragment>
+
+        <Fragment index={2} className="text-lg text-fg/40 mb-12">
+          <RichText text={copy.echo} emphasis="font-normal text-fg/70" />
+        </Fragment>
+
+        {/* Final rallying cry */}
+        <Fragment index={3} className="border-t border-fg/10 pt-8">
+          <p className="text-fg/30 text-sm tracking-wide mb-4">{copy.signoff}</p>
+          <div className="flex items-center justify-center gap-6 text-fg/50">
+            <span className="text-lg"><Kanji>田中一光</Kanji></span>
+            <span className="text-tanaka" aria-hidden="true">×</span>
+            <span className="text-lg">PlayStation</span>
+            <span className="text-ps4" aria-hidden="true">×</span>
+            <span className="text-lg text-fg">{copy.future}</span>
+          </div>
+        </Fragment>
+      </motion.div>
+
+      {/* Side notes */}
+      <SideNote type="insight" position="bottom-left" delay={2}>
+        {copy.insight}
+      </SideNote>
+      <SideNote type="quote" position="bottom-right" delay={2.3}>
+        {copy.quote}
+      </SideNote>
+    </div>
+  );
+}
+
+export function SlideMockups() {
+  const loop = useLoopTransition();
+  const copy = useLocale().messages.slides.mockups;
+
+  return (
+    <div className="h-full flex flex-col items-center justify-center p-8 relative overflow-hidden">
+      {/* Subtle background */}
+      <motion.div
+        aria-hidden="true"
+        className="absolute inset-0 bg-gradient-radial from-fg/[0.02] to-transparent"
+        animate={{ scale: [1, 1.2, 1] }}
+        transition={loop({ duration: 10 })}
+      />
+
+      <motion.div
+        className="text-center mb-6 relative z-10"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <p className="text-tanaka text-xs tracking-[0.4em] uppercase mb-2">{copy.eyebrow}</p>
+        <h2 className="text-4xl font-bold text-fg">
+          {copy.heading}
+        </h2>
+        <p className="text-fg/40 text-sm mt-2">{copy.lead}</p>
+      </motion.div>
+
+      <div className="flex gap-8 w-full max-w-6xl">
+        {/* OS Mockup - Desktop */}
+        <motion.div
+          className="flex-1"
+          initial={{ opacity: 0, x: -50 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: 0.2 }}
+        >
+          <div className="text-center mb-4">
+            <span className="text-pine font-bold text-xl">OS</span>
+            <p className="text-fg/40 text-sm">{copy.osLabel}</p>
+          </div>
+
+          {/* Desktop mockup frame - a live window manager, not a picture of one */}
+          <div className="relative bg-gradient-to-br from-harbor to-abyss rounded-lg p-3 shadow-2xl border border-pine/30">
+            <OSDesktop className="h-72" />
+          </div>
+
+          <motion.p
+            className="text-center text-fg/40 text-xs mt-3"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 1.2 }}
+          >
+            {copy.osFeatures}
+          </motion.p>
+        </motion.div>
+
+        {/* OS2 Mockup - PS4 Style Console */}
+        <motion.div
+          className="flex-1"
+          initial={{ opacity: 0, x: 50 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: 0.3 }}
+        >
+          <div className="text-center mb-4">
+            <span className="text-ps4 font-bold text-xl">OS2</span>
+            <p className="text-fg/40 text-sm">{copy.os2Label}</p>
+          </div>
+
+          {/* PS4-style mockup frame - a live console shell; click it, then use the arrows */}
+          <OS2Console
+            className="rounded-lg shadow-2xl border border-harbor/50"
+            style={{ aspectRatio: '16/10' }}
+          />
+
+          <motion.p
+            className="text-center text-fg/40 text-xs mt-3"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 1.2 }}
+          >
+            {copy.os2Features}
+          </motion.p>
+        </motion.div>
+      </div>
+
+      {/* Footer */}
+      <motion.div
+        className="mt-6 text-center relative z-10"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 1.5 }}
+      >
+        <p className="text-fg/50 text-sm mb-2">
+          <RichText text={copy.footer} emphasis="font-normal text-fg" />
+        </p>
+        <p className="text-fg/30 text-xs">
+          <RichText text={copy.wake} emphasis="font-normal text-tanaka" />
+        </p>
+      </motion.div>
+
+      {/* Side notes for context */}
+      <SideNote type="insight" position="bottom-left" delay={1.8}>
+        {copy.osNote}
+      </SideNote>
+      <SideNote type="tip" position="bottom-right" delay={2.1}>
+        {copy.os2Note}
+      </SideNote>
+    </div>
+  );
+}
+
+// ============================================
+// NEW INFLUENCE SLIDES
+// ============================================
+
+export function SlideInfluenceMap() {
+  const copy = useLocale().messages.slides.influenceMap;
+
+  return (
+    <div className="h-full flex flex-col items-center justify-center p-8">
+      <motion.h2
+        className="text-4xl font-bold text-fg mb-4"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+      >
+        {copy.heading}
+      </motion.h2>
+
+      <div className="relative w-full max-w-5xl" style={{ height: '70vh' }}>
+        <InfluenceGraph className="w-full h-full" />
+      </div>
+
+      <motion.p
+        className="text-fg/40 text-sm"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 1.5 }}
+      >
+        {copy.caption}
+      </motion.p>
+    </div>
+  );
+}
+
+export function SlideMingeiIntro() {
+  const { messages } = useLocale();
+  const copy = messages.slides.mingeiIntro;
+  const diagram = messages.a11y.diagrams.mingei;
+  const id = useId();
+
+  return (
+    <div className="h-full flex items-center justify-center p-16">
+      <div className="max-w-5xl">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: durations.slow }}
+        >
+          <div className="flex items-start gap-12">
+            {/* Left: Visual */}
+            <div className="flex-shrink-0">
+              <div className="relative">
+                {/* Pottery-like shape */}
+                <svg
+                  viewBox="0 0 200 240"
+                  className="w-48 h-60"
+                  role="img"
+                  aria-labelledby={`${id}-title`}
+                  aria-describedby={`${id}-desc`}
+                >
+                  <title id={`${id}-title`}>{diagram.title}</title>
+                  <desc id={`${id}-desc`}>{diagram.desc}</desc>
+                  <defs>
+                    <linearGradient id="mingeiGrad" x1="0%" y1="0%" x2="100%" y2="100%">
+                      <stop offset="0%" stopColor={colors.gold} />
+                      <stop offset="100%" stopColor={colors.umber} />
+                    </linearGradient>
+                  </defs>
+                  {/* Simple bowl shape */}
+                  <motion.path
+                    d="M40 60 Q30 120 50 180 Q100 220 150 180 Q170 120 160 60 Q100 80 40 60"
+                    fill="url(#mingeiGrad)"
+                    initial={{ pathLength: 0, fillOpacity: 0 }}
+                    animate={{ pathLength: 1, fillOpacity: 1 }}
+                    transition={{ duration: 1.5 }}
+                  />
+                  {/* Simple pattern */}
+                  <motion.circle
+                    cx="100"
+                    cy="130"
+                    r="25"
+                    fill="none"
+                    stroke={themeColor('clay')}
+                    strokeWidth="3"
+                    initial={{ scale: 0 }}
+                    animate={{ scale: 1 }}
+                    transition={{ delay: 0.8 }}
+                  />
+                </svg>
+
+                <motion.p
+                  className="text-center text-earth/60 text-sm mt-4"
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ delay: 1 }}
+                >
+                  {copy.caption}
+                </motion.p>
+              </div>
+            </div>
+
+            {/* Right: Content */}
+            <div className="flex-1">
+              <div className="flex items-center gap-4 mb-8">
+                <span className="text-7xl font-bold text-earth"><Kanji>民藝</Kanji></span>
+                <div>
+                  <h2 className="text-3xl font-bold text-earth">{copy.name}</h2>
+                  <p className="text-earth/60">{copy.subtitle}</p>
+                </div>
+              </div>
+
+              <blockquote className="text-2xl text-earth/80 leading-relaxed font-light border-l-4 border-gold pl-6 mb-8">
+                {copy.quote}
+              </blockquote>
+
+              <p className="text-earth/70 text-lg mb-8">
+                {copy.body}
+              </p>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="p-4 bg-earth/10 text-center">
+                  <p className="text-2xl font-bold text-gold"><Kanji>用</Kanji></p>
+                  <p className="text-earth/60 text-sm mt-1">{copy.utility}</p>
+                </div>
+                <div className="p-4 bg-earth/10 text-center">
+                  <p className="text-2xl font-bold text-gold"><Kanji>健</Kanji></p>
+                  <p className="text-earth/60 text-sm mt-1">{copy.health}</p>
+                </div>
+                <div className="p-4 bg-earth/10 text-center">
+                  <p className="text-2xl font-bold text-gold"><Kanji>素</Kanji></p>
+                  <p className="text-earth/60 text-sm mt-1">{copy.simplicity}</p>
+                </div>
+              </div>
+
+              <motion.div
+                className="mt-8 p-4 bg-earth/5 border border-gold/30"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.6 }}
+              >
+                <p className="text-earth/80 text-sm">
+                  <span className="font-bold text-gold">{messages.common.inMino}</span> {copy.inMino}
+                </p>
+              </motion.div>
+            </div>
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
+
+export function SlideBoidsIntro() {
+  const [boidsParams, setBoidsParams] = useState(DEFAULT_BOIDS_PARAMS);
+  const { messages } = useLocale();
+  const copy = messages.slides.boidsIntro;
+
+  return (
+    <div className="h-full flex items-center justify-center p-12">
+      <div className="max-w-5xl w-full">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: durations.slow }}
+        >
+          <div className="flex items-start gap-12">
+            {/* Left: Live boids simulation */}
+            <div className="flex-shrink-0 w-80">
+              <div className="h-64 bg-black/30 border border-pine/30 rounded overflow-hidden">
+                <BoidsAquarium
+                  count={60}
+                  params={boidsParams}
+                  title={messages.a11y.diagrams.boids.title}
+                  description={messages.a11y.diagrams.boids.desc}
+                />
+              </div>
+              <motion.div
+                className="mt-4"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.8 }}
+              >
+                <BoidsControls params={boidsParams} onChange={setBoidsParams} />
+              </motion.div>
+            </div>
+
+            {/* Right: Content */}
+            <div className="flex-1">
+              <div className="flex items-center gap-4 mb-8">
+                <span className="text-7xl font-bold text-pine"><Kanji>群</Kanji></span>
+                <div>
+                  <h2 className="text-3xl font-bold text-fg">{copy.heading}</h2>
+                  <p className="text-fg/60">{copy.byline}</p>
+                </div>
+              </div>
+
+              <blockquote className="text-xl text-fg/70 leading-relaxed font-light border-l-4 border-pine pl-6 mb-8">
+                {copy.quote}
+              </blockquote>
+
+              <p className="text-fg/60 text-lg mb-8">
+                <RichText text={copy.body} emphasis="text-fg" />
+              </p>
+
+              <div className="grid grid-cols-2 gap-4 mb-8">
+                <div className="p-4 bg-fg/5 border border-fg/10">
+                  <p className="text-pine font-bold mb-1">{copy.hashing}</p>
+                  <p className="text-fg/50 text-sm">{copy.hashingText}</p>
+                </div>
+                <div className="p-4 bg-fg/5 border border-fg/10">
+                  <p className="text-pine font-bold mb-1">{copy.flowFields}</p>
+                  <p className="text-fg/50 text-sm">{copy.flowFieldsText}</p>
+                </div>
+              </div>
+
+              <motion.div
+                className="p-4 bg-pine/10 border border-pine/30"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.6 }}
+              >
+                <p className="text-fg/80 text-sm">
+                  <span className="font-bold text-pine">{messages.common.inMino}</span> {copy.inMino}
+                </p>
+              </motion.div>
+            </div>
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
+
+// Sample window for the dithering split view
+function DitherSampleWindow() {
+  return (
+    <div className="absolute inset-0 flex items-center justify-center">
+      <div className="w-44 h-28 rounded bg-ps4 shadow-lg overflow-hidden">
+        <div className="h-5 bg-chrome-title flex items-center px-2 gap-1.5">
+          <div className="w-2 h-2 rounded-full bg-tanaka" />
+          <div className="w-2 h-2 rounded-full bg-ochre" />
+          <div className="w-2 h-2 rounded-full bg-pine" />
+        </div>
+        <div className="p-3 space-y-2">
+          <div className="h-2 bg-white/30 rounded w-4/5" />
+          <div className="h-1.5 bg-white/20 rounded w-3/5" />
+          <div className="h-1.5 bg-white/20 rounded w-2/3" />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function SlideDitheringIntro() {
+  const [ditherParams, setDitherParams] = useState(DEFAULT_DITHER_PARAMS);
+  const { messages } = useLocale();
+  const copy = messages.slides.ditheringIntro;
+
+  return (
+    <div className="h-full flex items-center justify-center p-12">
+      <div className="max-w-5xl w-full">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: durations.slow }}
+        >
+          <div className="flex items-start gap-12">
+            {/* Left: Live dithering playground */}
+            <div className="flex-shrink-0 w-80">
+              <DitherSplitView
+                params={ditherParams}
+                title={messages.a11y.diagrams.dithering.title}
+                description={messages.a11y.diagrams.dithering.desc}
+                className="h-48 rounded bg-chrome-well border border-fg/10"
+              >
+                <DitherSampleWindow />
+              </DitherSplitView>
+              <p className="text-fg/30 text-[10px] text-center mt-2">{messages.controls.dragToCompare}</p>
+
+              <motion.div
+                className="mt-4 p-4 bg-fg/5 rounded"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.8 }}
+              >
+                <p className="text-fg/50 text-[10px] tracking-wider text-center mb-3">{messages.controls.filterChain}</p>
+                <DitherControls params={ditherParams} onChange={setDitherParams} />
+              </motion.div>
+            </div>
+
+            {/* Right: Content */}
+            <div className="flex-1">
+              <div className="flex items-center gap-4 mb-8">
+                <span className="text-7xl font-bold text-dither"><Kanji>霧</Kanji></span>
+                <div>
+                  <h2 className="text-3xl font-bold text-fg">{copy.heading}</h2>
+                  <p className="text-fg/60">{copy.subtitle}</p>
+                </div>
+              </div>
+
+              <blockquote className="text-xl text-fg/70 leading-relaxed font-light border-l-4 border-dither pl-6 mb-8">
+                {copy.quote}
+              </blockquote>
+
+              <p className="text-fg/60 text-lg mb-8">
+                <RichText text={copy.body} emphasis="text-fg" />
+              </p>
+
+              <div className="space-y-3 mb-8">
+                <div className="flex items-center gap-3">
+                  <div className="w-3 h-3 bg-dither" aria-hidden="true" />
+                  <p className="text-fg/70 text-sm"><strong className="text-fg">feTurbulence:</strong> {copy.turbulence}</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="w-3 h-3 bg-dither" aria-hidden="true" />
+                  <p className="text-fg/70 text-sm"><strong className="text-fg">feDisplacementMap:</strong> {copy.displacement}</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="w-3 h-3 bg-dither" aria-hidden="true" />
+                  <p className="text-fg/70 text-sm"><strong className="text-fg">feGaussianBlur:</strong> {copy.blur}</p>
+                </div>
+              </div>
+
+              <motion.div
+                className="p-4 bg-dither/10 border border-dither/30"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.6 }}
+              >
+                <p className="text-fg/80 text-sm">
+                  <span className="font-bold text-dither">{messages.common.inMino}</span> {copy.inMino}
+                </p>
+              </motion.div>
+            </div>
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
+
+export function SlideMacOSIntro() {
+  const { messages } = useLocale();
+  const copy = messages.slides.macosIntro;
+
+  return (
+    <div className="h-full flex items-center justify-center p-12 bg-gradient-to-br from-surface-slate to-surface-harbor">
+      <div className="max-w-5xl w-full">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: durations.slow }}
+        >
+          <div className="flex items-start gap-12">
+            {/* Left: Desktop visualization */}
+            <div className="flex-shrink-0 w-96" aria-hidden="true">
+              <div className="relative bg-chrome-desk rounded-lg p-4 shadow-2xl">
+                {/* Menu bar */}
+                <div className="h-6 bg-chrome-menu rounded-t flex items-center px-3 gap-4 mb-4">
+                  <span className="text-white/80 text-xs font-bold">🍎</span>
+                  <span className="text-white/60 text-xs">File</span>
+                  <span className="text-white/60 text-xs">Edit</span>
+                  <span className="text-white/60 text-xs">View</span>
+                </div>
+
+                {/* Windows */}
+                <div className="relative h-48">
+                  {/* Back window */}
+                  <motion.div
+                    className="absolute w-36 h-28 bg-chrome-800 rounded shadow-lg"
+                    style={{ top: 10, left: 10 }}
+                    initial={{ opacity: 0, scale: 0.8 }}
+                    animate={{ opacity: 0.6, scale: 1 }}
+                    transition={{ delay: 0.3 }}
+                  >
+                    <div className="h-5 bg-chrome-700 rounded-t flex items-center px-2 gap-1">
+                      <div className="w-2 h-2 rounded-full bg-tanaka" />
+                      <div className="w-2 h-2 rounded-full bg-ochre" />
+                      <div className="w-2 h-2 rounded-full bg-pine" />
+                    </div>
+                  </motion.div>
+
+                  {/* Middle window */}
+                  <motion.div
+                    className="absolute w-40 h-32 bg-chrome-700 rounded shadow-lg"
+                    style={{ top: 30, left: 60 }}
+                    initial={{ opacity: 0, scale: 0.8 }}
+                    animate={{ opacity: 0.8, scale: 1 }}
+                    transition={{ delay: 0.5 }}
+                  >
+                    <div className="h-5 bg-chrome-600 rounded-t flex items-center px-2 gap-1">
+                      <div className="w-2 h-2 rounded-full bg-tanaka" />
+                      <div className="w-2 h-2 rounded-full bg-ochre" />
+                      <div className="w-2 h-2 rounded-full bg-pine" />
+                    </div>
+                  </motion.div>
+
+                  {/* Front window (focused) */}
+                  <motion.div
+                    className="absolute w-44 h-36 bg-chrome-600 rounded shadow-xl border border-white/20"
+                    style={{ top: 50, left: 110 }}
+                    initial={{ opacity: 0, scale: 0.8 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    transition={{ delay: 0.7 }}
+                  >
+                    <div className="h-6 bg-chrome-500 rounded-t flex items-center px-2 gap-1">
+                      <div className="w-2.5 h-2.5 rounded-full bg-tanaka" />
+                      <div className="w-2.5 h-2.5 rounded-full bg-ochre" />
+                      <div className="w-2.5 h-2.5 rounded-full bg-pine" />
+                      <span className="text-white/80 text-xs ml-2">Terminal</span>
+                    </div>
+                    <div className="p-2">
+                      <p className="text-pine text-xs font-mono">$ mino start</p>
+                      <p className="text-white/60 text-xs font-mono mt-1">Server running...</p>
+                    </div>
+                  </motion.div>
+                </div>
+
+                {/* Dock */}
+                <motion.div
+                  className="flex items-end justify-center gap-2 mt-4 h-12 bg-white/10 rounded-lg px-4"
+                  initial={{ y: 20, opacity: 0 }}
+                  animate={{ y: 0, opacity: 1 }}
+                  transition={{ delay: 1 }}
+                >
+                  {['📁', '🌐', '📝', '🎵', '⚙️'].map((icon, i) => (
+                    <div
+                      key={i}
+                      className="w-8 h-8 bg-white/20 rounded-lg flex items-center justify-center text-sm"
+                    >
+                      {icon}
+                    </div>
+                  ))}
+                </motion.div>
+              </div>
+            </div>
+
+            {/* Right: Content */}
+            <div className="flex-1">
+              <div className="flex items-center gap-4 mb-8">
+                <span className="text-7xl font-bold text-fg/80"><Kanji>窓</Kanji></span>
+                <div>
+                  <h2 className="text-3xl font-bold text-fg">{copy.heading}</h2>
+                  <p className="text-fg/60">{copy.subtitle}</p>
+                </div>
+              </div>
+
+              <blockquote className="text-xl text-fg/70 leading-relaxed font-light border-l-4 border-fg/30 pl-6 mb-8">
+                {copy.quote}
+              </blockquote>
+
+              <p className="text-fg/60 text-lg mb-8">
+                <RichText text={copy.body} emphasis="text-fg" />
+              </p>
+
+              <div className="grid grid-cols-2 gap-4 mb-8">
+                {copy.features.map((feature) => (
+                  <div key={feature.title} className="p-4 bg-fg/5 border border-fg/10">
+                    <p className="text-fg font-bold mb-1">{feature.title}</p>
+                    <p className="text-fg/50 text-sm">{feature.text}</p>
+                  </div>
+                ))}
+              </div>
+
+              <motion.div
+                className="p-4 bg-fg/5 border border-fg/20"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.6 }}
+              >
+                <p className="text-fg/80 text-sm">
+                  <span className="font-bold text-fg">{messages.common.inMino}</span> {copy.inMino}
+                </p>
+              </motion.div>
+            </div>
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// SOLUTION SLIDES
+// ============================================
+
+export function SlideOSSolution() {
+  const loop = useLoopTransition();
+  const { messages } = useLocale();
+  const copy = messages.slides.osSolution;
+  const features = [
+    { icon: '窓', color: colors.steel },
+    { icon: '民', color: colors.gold },
+    { icon: '群', color: colors.pine },
+    { icon: '霧', color: colors.dither },
+  ].map((style, i) => ({ ...style, ...copy.features[i] }));
+
+  return (
+    <div className="h-full flex items-center justify-center p-12 bg-gradient-to-br from-surface-harbor to-surface-canvas">
+      <div className="max-w-5xl w-full">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: durations.slow }}
+        >
+          {/* Header */}
+          <div className="flex items-center gap-6 mb-8">
+            <div className="relative w-24 h-20" aria-hidden="true">
+              {/* Mini desktop visual */}
+              <div className="absolute inset-0 bg-chrome-900 rounded-lg border border-pine">
+                <div className="h-3 bg-chrome-800 rounded-t-lg flex items-center px-1 gap-0.5">
+                  <div className="w-1.5 h-1.5 rounded-full bg-tanaka" />
+                  <div className="w-1.5 h-1.5 rounded-full bg-ochre" />
+                  <div className="w-1.5 h-1.5 rounded-full bg-pine" />
+                </div>
+              </div>
+              <motion.div
+                className="absolute bottom-1 left-2 text-sm"
+                animate={{ x: [0, 50, 0] }}
+                transition={loop({ duration: 3, ease: 'easeInOut' })}
+              >
+                🐟
+              </motion.div>
+            </div>
+            <div>
+              <h2 className="text-5xl font-bold text-fg">OS</h2>
+              <p className="text-pine text-lg">{copy.subtitle}</p>
+              <p className="text-fg/40 text-sm font-mono">/dec-launch/os</p>
+            </div>
+          </div>
+
+          {/* Philosophy */}
+          <blockquote className="text-xl text-fg/70 leading-relaxed font-light border-l-4 border-pine pl-6 mb-10">
+            {copy.quote}
+          </blockquote>
+
+          {/* Features grid */}
+          <div className="grid grid-cols-2 gap-6 mb-8">
+            {features.map((f, i) => (
+              <motion.div
+                key={f.name}
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.2 + i * 0.1 }}
+                className="p-6 bg-fg/[0.03] border border-fg/10 rounded-lg"
+              >
+                <div className="flex items-center gap-4 mb-3">
+                  <div
+                    className="w-12 h-12 rounded-lg flex items-center justify-center text-2xl text-white"
+                    style={{ backgroundColor: f.color }}
+                  >
+                    <Kanji>{f.icon}</Kanji>
+                  </div>
+                  <div>
+                    <h3 className="text-lg font-bold text-fg">{f.name}</h3>
+                    <p className="text-fg/50 text-sm">{f.desc}</p>
+                  </div>
+                </div>
+              </motion.div>
+            ))}
+          </div>
+
+          {/* Technical stack */}
+          <div className="flex items-center gap-4 flex-wrap">
+            <span className="text-fg/30 text-sm">{messages.common.tech}</span>
+            {copy.tech.map((tech) => (
+              <span key={tech} className="px-3 py-1 bg-fg/5 rounded text-fg/60 text-xs">
+                {tech}
+              </span>
+            ))}
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
+
+export function SlideOS2Solution() {
+  const { messages } = useLocale();
+  const copy = messages.slides.os2Solution;
+  const features = [
+    { icon: '遊', color: colors.ps4 },
+    { icon: '田', color: colors.tanaka },
+    { icon: '拡', color: chrome[700] },
+    { icon: '音', color: colors.tide },
+  ].map((style, i) => ({ ...style, ...copy.features[i] }));
+
+  return (
+    <div className="h-full flex items-center justify-center p-12">
+      <div className="max-w-5xl w-full">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: durations.slow }}
+        >
+          {/* Header */}
+          <div className="flex items-center gap-6 mb-8">
+            {/* Mini PS4-style tiles */}
+            <div className="flex items-end gap-1">
+              {['魚', '端', '書'].map((kanji, i) => (
+                <motion.div
+                  key={kanji}
+                  className={`flex items-center justify-center rounded ${
+                    i === 0 ? 'w-12 h-12 bg-ps4 border border-fg/30' : 'w-8 h-8 bg-fg/10'
+                  }`}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.2 + i * 0.1 }}
+                >
+                  <span className={`${i === 0 ? 'text-lg text-white' : 'text-xs text-fg/50'}`}>
+                    <Kanji>{kanji}</Kanji>
+                  </span>
+                </motion.div>
+              ))}
+            </div>
+            <div>
+              <h2 className="text-5xl font-bold text-fg">OS2</h2>
+              <p className="text-ps4 text-lg">{copy.subtitle}</p>
+              <p className="text-fg/40 text-sm font-mono">/dec-launch/os2</p>
+            </div>
+          </div>
+
+          {/* Philosophy */}
+          <blockquote className="text-xl text-fg/70 leading-relaxed font-light border-l-4 border-ps4 pl-6 mb-10">
+            {copy.quote}
+          </blockquote>
+
+          {/* Features grid */}
+          <div className="grid grid-cols-2 gap-6 mb-8">
+            {features.map((f, i) => (
+              <motion.div
+                key={f.name}
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.2 + i * 0.1 }}
+                className="p-6 bg-fg/[0.03] border border-fg/10 rounded-lg"
+              >
+                <div className="flex items-center gap-4 mb-3">
+                  <div
+                    className="w-12 h-12 rounded-lg flex items-center justify-center text-2xl text-white"
+                    style={{ backgroundColor: f.color }}
+                  >
+                    <Kanji>{f.icon}</Kanji>
+                  </div>
+                  <div>
+                    <h3 className="text-lg font-bold text-fg">{f.name}</h3>
+                    <p className="text-fg/50 text-sm">{f.desc}</p>
+                  </div>
+                </div>
+              </motion.div>
+            ))}
+          </div>
+
+          {/* Technical stack */}
+          <div className="flex items-center gap-4 flex-wrap">
+            <span className="text-fg/30 text-sm">{messages.common.tech}</span>
+            {copy.tech.map((tech) => (
+              <span key={tech} className="px-3 py-1 bg-fg/5 rounded text-fg/60 text-xs">
+                {tech}
+              </span>
+            ))}
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,380 @@
+import { SECTIONS, SLIDE_REGISTRY, type SectionId, type SlideId } from '@/lib/slides';
+import { SHORTCUTS, type DeckCommand } from '@/lib/shortcuts';
+import { EDGE_KINDS, INFLUENCE_NODES, type InfluenceEdgeKind } from '@/lib/influences';
+import { KANJI_DICTIONARY, type KanjiWord } from '@/lib/kanji';
+import { OS_COMPARISON, matrixWording } from '@/lib/comparisons';
+
+// ============================================
+// ENGLISH CATALOG
+// The deck is written in English, so this catalog sets the shape
+// every other locale must match. Slide titles, notes, sections,
+// shortcuts, influences, kanji and comparison matrices keep their
+// English text next to their data and are gathered here; everything
+// else is written inline.
+//
+// In slide copy, **text** marks emphasis and \n a line break (see
+// components/RichText).
+//
+// Built on first use rather than at import: the slide registry
+// imports the slides, and the slides read this catalog.
+// ============================================
+
+function build() {
+  const sections = Object.fromEntries(
+    SECTIONS.map((section) => [section.id, { title: section.title, subtitle: 'subtitle' in section ? section.subtitle : undefined }])
+  ) as Record<SectionId, { title: string; subtitle?: string }>;
+
+  const slideMeta = Object.fromEntries(
+    SLIDE_REGISTRY.map((slide) => [slide.id, { title: slide.title, notes: slide.notes }])
+  ) as Record<SlideId, { title: string; notes: string }>;
+
+  const shortcuts = Object.fromEntries(
+    SHORTCUTS.map((shortcut) => [shortcut.command, shortcut.description])
+  ) as Record<DeckCommand, string>;
+
+  const influences = Object.fromEntries(
+    INFLUENCE_NODES.map((node) => [node.id, { name: node.name, description: node.description }])
+  ) as Record<string, { name: string; description: string }>;
+
+  const edgeKinds = Object.fromEntries(
+    Object.entries(EDGE_KINDS).map(([kind, { label }]) => [kind, label])
+  ) as Record<InfluenceEdgeKind, string>;
+
+  const kanji = Object.fromEntries(
+    Object.entries(KANJI_DICTIONARY).map(([word, { meaning, rationale }]) => [word, { meaning, rationale }])
+  ) as Record<KanjiWord, { meaning: string; rationale: string }>;
+
+  return {
+    sections,
+    slideMeta,
+    shortcuts,
+    kanji,
+    comparisons: {
+      os: matrixWording(OS_COMPARISON),
+    },
+
+    deck: {
+      presenter: 'Open presenter view (P)',
+      help: 'Keyboard shortcuts (?)',
+      helpTitle: 'Keyboard Shortcuts',
+      helpTouch: 'Swipe or tap the screen edges on touch devices.',
+      theme: 'Theme: {preference} (T)',
+      themes: { system: 'system', light: 'light', dark: 'dark' },
+      motionForced: 'Reduced motion forced on (R)',
+      motionForce: 'Force reduced motion (R)',
+      mute: 'Mute sound (M)',
+      unmute: 'Unmute sound (M)',
+      volume: 'Sound volume',
+      language: 'Language: English (L)',
+      annotation: 'Kanji readings: {mode} (K)',
+      annotations: { off: 'off', furigana: 'furigana', romaji: 'romaji' },
+    },
+
+    a11y: {
+      navigation: 'Slide navigation',
+      settings: 'Deck settings',
+      previous: 'Previous slide',
+      next: 'Next slide',
+      slide: 'slide',
+      slideLabel: 'Slide {number}: {title}',
+      announcement: 'Slide {number} of {total}: {title}',
+      console: {
+        label: 'OS2 console. Left and right arrows move between tiles, Enter opens one, Escape backs out and M shows options.',
+        tile: '{label}, tile {number} of {total}',
+        item: '{title}: {item}, {number} of {total}',
+        option: '{option}, option {number} of {total}',
+      },
+      diagrams: {
+        influenceMap: {
+          title: 'Influence map',
+          desc: 'OS draws on macOS, Mingei, Boids and SVG dithering; OS2 draws on PlayStation 4 and Ikko Tanaka. Both share Ma. Arrows mark inspiration, dashed lines a shared principle. Each influence links to its slide.',
+        },
+        tanaka: {
+          title: "Composition after Tanaka's Nihon Buyo poster",
+          desc: 'A large pale circle for a face under a long vermilion band, a dark rectangle for the body, a small vermilion square either side and a green diagonal line at its foot.',
+        },
+        mingei: {
+          title: 'Folk craft bowl',
+          desc: 'A plain ochre bowl with a single clay-colored ring on its side.',
+        },
+        boids: {
+          title: 'Live Boids simulation',
+          desc: 'A school of fish swimming as one, steered only by separation, alignment and cohesion. The sliders below change each rule while it runs.',
+        },
+        dithering: {
+          title: 'Dithering comparison',
+          desc: 'A sample window, sharp on one side of a divider and seen through the dither filter on the other. Move the divider to compare; the controls below change the filter.',
+          divider: 'Divider position',
+        },
+      },
+    },
+
+    presenter: {
+      current: 'Current',
+      next: 'Next',
+      elapsed: 'Elapsed',
+      remaining: 'Remaining',
+      resetTimer: 'Reset timer',
+      notes: 'Notes',
+      endOfDeck: 'End of deck',
+      step: 'Step {step} of {steps}',
+    },
+
+    handout: {
+      title: 'Mino Design Influences — Handout',
+      single: 'One per page',
+      double: 'Two per page',
+      print: 'Print',
+      onTheSlide: 'On the slide',
+      speakerNotes: 'Speaker notes',
+      noteLabels: { info: 'Info', insight: 'Insight', quote: 'Quote', tip: 'Tip' },
+    },
+
+    influenceGraph: {
+      edgeKinds,
+      nodes: influences,
+      goToSlide: '{name}: {description}. Go to slide.',
+    },
+
+    blocks: {
+      matrixLabel: 'Comparison of {systems}',
+      aspect: 'Aspect',
+      baseline: 'Baseline',
+      highlightDifferences: 'Highlight differences',
+      mostDifferentFirst: 'Most different first',
+    },
+
+    controls: {
+      boids: { separation: 'Separation', alignment: 'Alignment', cohesion: 'Cohesion', neighborRadius: 'Radius' },
+      dragToCompare: 'Drag to compare',
+      filterChain: 'SVG FILTER CHAIN',
+      focused: 'FOCUSED',
+      unfocused: 'UNFOCUSED',
+      timeOfDay: 'Time of day',
+      live: 'Live',
+      phases: { dawn: 'dawn', day: 'day', dusk: 'dusk', night: 'night' },
+    },
+
+    console: {
+      tiles: {
+        fish: { label: 'Fish', title: 'Fish Aquarium', subtitle: 'Interactive • Boids Simulation', items: ['Open aquarium', 'School size', 'Flow field'] },
+        apps: { label: 'Apps', title: 'Apps', subtitle: 'Terminal • Tools • Utilities', items: ['Terminal', 'Calculator', 'Clock'] },
+        docs: { label: 'Docs', title: 'Documents', subtitle: 'Writing • Reading • Notes', items: ['Recent', 'Notes', 'Posters'] },
+        media: { label: 'Media', title: 'Media', subtitle: 'Film • Music • Photography', items: ['Films', 'Music', 'Photos'] },
+        settings: { label: 'Settings', title: 'Settings', subtitle: 'Display • Sound • Controller', items: ['Display', 'Sound', 'Controller'] },
+        store: { label: 'Store', title: 'Store', subtitle: 'Apps • Themes • Wallpapers', items: ['Featured', 'Themes', 'Wallpapers'] },
+      },
+      options: ['Information', 'Add to Favorites', 'Settings'],
+      select: 'Select',
+      back: 'Back',
+      optionsButton: 'OPTIONS',
+    },
+
+    desktop: {
+      apps: { files: 'Files', browser: 'Browser', notes: 'Notes', music: 'Music', settings: 'Settings' },
+      finder: 'Finder',
+      menu: ['File', 'Edit', 'View'],
+      close: 'Close',
+      minimize: 'Minimize',
+      ma: 'Ma',
+      maBody: 'Space is not empty. It is where meaning lives.',
+      folders: ['Posters', 'Kanji', 'Fish'],
+      track: 'Ambient No. 1',
+      trackDetail: 'Living room, 2013',
+      toggles: ['Boids fish', 'SVG dithering', 'Ambient motion'],
+    },
+
+    common: {
+      inMino: 'In Mino:',
+      whyItMatters: 'Why it matters:',
+      tech: 'Tech:',
+    },
+
+    slides: {
+      title: {
+        eyebrow: 'A Design Manifesto',
+        headline: 'The Web is Stuck.',
+        lead: "We're building what comes next.",
+        tagline: 'Not another template. Not another trend.\n**A new design language.**',
+        insight: 'Every website looks the same. Hero sections, card grids, hamburger menus. We forgot design could be art.',
+        quote: '"The details are not the details. They make the design." — Charles Eames',
+        tip: 'Use arrow keys to navigate. Press ? for every shortcut.',
+      },
+      twoSolutions: {
+        eyebrow: 'Two Radical Departures',
+        headline: 'Not Variations. **Revolutions.**',
+        osTagline: 'The Living Desktop',
+        osPitch: 'Windows that breathe. Fish that swim in formation. **Desktop as ecosystem.**',
+        osWhy: "Nobody else is making desktops feel alive. This isn't a theme—it's a philosophy.",
+        os2Tagline: 'The Zen Console',
+        os2Pitch: "PlayStation's calm meets Tanaka's geometry. **Websites as meditation.**",
+        os2Why: 'Every site fights for attention. This one earns it through stillness.',
+        footer: 'Different paths. Same destination: **making you feel something.**',
+      },
+      tanakaIntro: {
+        name: 'Ikko Tanaka',
+        quote: '"Design is the method of putting form and content together. Design, just as art, has multiple definitions; there is no single definition."',
+        mujiCaption: 'Brand Identity',
+        mujiNameCaption: '"No-brand quality goods"',
+        rinpa: 'Rinpa',
+        rinpaCaption: 'Art Movement',
+      },
+      tanakaVisual: {
+        caption: 'Nihon Buyo Abstraction',
+      },
+      ps4Intro: {
+        heading: 'PlayStation 4 UI',
+        lead: 'A masterclass in calm, focused interface design',
+        quote: '"The PS4 interface was designed to feel like a living room—warm, inviting, and never demanding attention."',
+        unitsSold: 'Units Sold',
+        launchYear: 'Launch Year',
+        zen: 'Zen',
+        philosophy: 'Design Philosophy',
+      },
+      ps4Visual: {
+        preview: 'Content Preview Area',
+        tiles: ['Games', 'Media', 'Store', 'Settings'],
+        caption: 'Large tiles. Horizontal scroll. Focus states. Breathing room.',
+      },
+      maConcept: {
+        name: 'Ma',
+        gloss: 'The pregnant pause',
+        lead: 'Ma is not emptiness—it is potential. The space between things that gives them meaning.',
+        relationship: 'Space creates relationship',
+        tanaka: 'Tanaka: White space as composition',
+        ps4: 'PS4: Content breathes',
+      },
+      synthesis: {
+        heading: 'The Synthesis: Tanaka × PS4',
+        fromTanaka: 'From Tanaka',
+        tanakaPoints: [
+          'Bold geometric shapes as navigation',
+          'Kanji icons for cultural resonance',
+          'Kraft paper warmth in dark mode',
+          'Single accent color philosophy',
+        ],
+        fromPs4: 'From PS4',
+        ps4Points: [
+          'Horizontal navigation with large tiles',
+          'Content preview above selection',
+          'Keyboard + scroll wheel navigation',
+          'Ambient motion and transitions',
+        ],
+      },
+      improvements: {
+        heading: 'Opportunities for Improvement',
+        current: 'Current',
+        improved: 'Improved',
+        items: [
+          { title: 'Dynamic Color System', current: 'Static accent per section', improved: 'Colors that respond to content and time of day' },
+          { title: 'Haptic Feedback', current: 'Visual-only feedback', improved: "Subtle audio cues matching Tanaka's rhythm" },
+          { title: 'Contextual Ma', current: 'Fixed spacing', improved: 'Breathing space that expands with focus' },
+          { title: 'Layered Depth', current: 'Flat hierarchy', improved: 'SVG dithering for unfocused elements' },
+        ],
+      },
+      conclusion: {
+        eyebrow: 'The Call to Action',
+        headline: 'Stop Following.\n**Start Leading.**',
+        body: "The web doesn't need another hero section.\nIt doesn't need another card grid.\n**It needs designers who remember that screens can be art.**",
+        echo: "Tanaka made posters that felt like poetry.\nPlayStation made interfaces that felt like home.\n**We're making websites that feel like experiences.**",
+        signoff: 'This is Mino.',
+        future: 'The Future',
+        insight: "This isn't about nostalgia. It's about taking what worked and pushing it forward.",
+        quote: '"In a world full of noise, stillness is revolutionary."',
+      },
+      mockups: {
+        eyebrow: 'See It To Believe It',
+        heading: 'This Is What Different Looks Like',
+        lead: 'Not mockups. Manifestos in pixel form.',
+        osLabel: 'Desktop Paradigm',
+        osFeatures: 'Draggable windows • Boids fish • SVG dithering',
+        os2Label: 'Console Interface',
+        os2Features: 'PS4-style navigation • Large tiles • Content-first',
+        footer: 'Two paths. One truth: **design should make you feel something.**',
+        wake: "The web has been asleep. **We're here to wake it up.**",
+        osNote: 'OS: For those who create. Windows as living spaces, fish as companions.',
+        os2Note: 'OS2: For those who contemplate. Every pixel placed with intention.',
+      },
+      influenceMap: {
+        heading: 'Influence Architecture',
+        caption: 'Two solutions, each drawing from distinct yet complementary philosophies. Select an influence to visit it.',
+      },
+      mingeiIntro: {
+        caption: 'Everyday beauty',
+        name: 'Mingei',
+        subtitle: 'Folk Craft Movement',
+        quote: '"True beauty is found in objects made by unknown craftsmen for everyday use."',
+        body: 'Founded by Yanagi Sōetsu in 1926, Mingei celebrates the beauty of ordinary, functional objects—rejecting both industrial mass production and elite fine art.',
+        utility: 'Utility',
+        health: 'Health',
+        simplicity: 'Simplicity',
+        inMino: "Our design system draws from Mingei's principle that interfaces should feel crafted yet unpretentious—like well-worn tools that work naturally.",
+      },
+      boidsIntro: {
+        heading: 'Boids Algorithm',
+        byline: 'Craig Reynolds, 1986',
+        quote: '"Complex global behavior can emerge from simple local rules."',
+        body: "Three simple rules create lifelike flocking: **separation** (avoid crowding), **alignment** (match neighbors' heading), and **cohesion** (move toward center).",
+        hashing: 'Spatial Hashing',
+        hashingText: 'O(n) neighbor lookup for performance',
+        flowFields: 'Perlin Flow Fields',
+        flowFieldsText: 'Organic movement through noise',
+        inMino: 'Fish in the desktop OS use Boids to create a living, breathing aquarium. Each fish follows simple rules, yet the school moves as one—a digital allegory for emergent design.',
+      },
+      ditheringIntro: {
+        heading: 'SVG Dithering',
+        subtitle: 'Depth Through Controlled Noise',
+        quote: '"The unfocused becomes atmosphere, drawing the eye to what matters."',
+        body: 'Traditional blur feels artificial. Our SVG dithering filter uses **fractal noise displacement** to create organic depth—like looking through frosted glass or morning mist.',
+        turbulence: 'Generate Perlin noise texture',
+        displacement: 'Warp pixels using noise',
+        blur: 'Soften the displaced result',
+        inMino: 'Unfocused windows fade into the background using this filter, creating visual hierarchy without harsh edges—like the layered depth in traditional Japanese ink paintings.',
+      },
+      macosIntro: {
+        heading: 'Desktop Paradigm',
+        subtitle: 'The Window as Metaphor',
+        quote: '"The desktop is not a workspace—it\'s a space for thought."',
+        body: 'Since Xerox PARC in 1973, the **overlapping window** metaphor has defined computing. Each window is a portal—draggable, stackable, a physical object in digital space.',
+        features: [
+          { title: 'Z-Index Stacking', text: 'Focus creates hierarchy through layering' },
+          { title: 'Draggable Windows', text: 'User controls spatial organization' },
+          { title: 'Traffic Lights', text: 'Close, minimize, maximize—universal' },
+          { title: 'Persistent Dock', text: 'Quick access to frequent tools' },
+        ],
+        inMino: 'The OS page recreates this paradigm with Tanaka aesthetics—traffic light buttons in his palette, windows as zen frames, the dock as a calligraphic brush rest.',
+      },
+      osSolution: {
+        subtitle: 'Desktop Paradigm Solution',
+        quote: '"A digital aquarium where windows float like lily pads on water, and fish swim through your workspace."',
+        features: [
+          { name: 'Windows', desc: 'Draggable, stackable, z-indexed' },
+          { name: 'Mingei Style', desc: 'Craft-inspired, warm materials' },
+          { name: 'Boids Fish', desc: 'Living, breathing background' },
+          { name: 'SVG Dithering', desc: 'Organic depth & focus' },
+        ],
+        tech: ['React', 'Framer Motion', 'SVG Filters', 'Boids Algorithm', 'Perlin Noise'],
+      },
+      os2Solution: {
+        subtitle: 'Console Interface Solution',
+        quote: '"The zen of PlayStation meets Tanaka\'s geometric poetry—bold tiles, kanji icons, and content that breathes."',
+        features: [
+          { name: 'PS4 Navigation', desc: 'Horizontal tile menu' },
+          { name: 'Tanaka Icons', desc: 'Kanji as bold geometry' },
+          { name: 'Expanded Panels', desc: 'Content-first focus' },
+          { name: 'Ambient Motion', desc: 'Subtle, breathing UI' },
+        ],
+        tech: ['React', 'Framer Motion', 'Keyboard Nav', 'Scroll Wheel', 'Focus States'],
+      },
+    },
+  };
+}
+
+export type Messages = ReturnType<typeof build>;
+
+let catalog: Messages | null = null;
+
+export function en(): Messages {
+  catalog ??= build();
+  return catalog;
+}
@@ -0,0 +1,15 @@
+import type { Locale } from '@/lib/i18n';
+import { en, type Messages } from './en';
+import { ja } from './ja';
+
+// ============================================
+// LOCALE CATALOGS
+// One catalog per locale in lib/i18n. A new locale needs its file
+// here, typed as Messages so nothing can be left untranslated.
+// ============================================
+
+export type { Messages };
+
+export function getMessages(locale: Locale): Messages {
+  return locale === 'ja' ? ja : en();
+}
@@ -0,0 +1,543 @@
+import type { Messages } from './en';
+
+// ============================================
+// JAPANESE CATALOG
+// Mirrors en.ts key for key; the Messages type fails the build if
+// anything is missing. Kanji in the original stay as they are.
+// ============================================
+
+export const ja: Messages = {
+  sections: {
+    intro: { title: 'はじめに' },
+    os: { title: 'OS ソリューション', subtitle: 'デスクトップ・パラダイム' },
+    os2: { title: 'OS2 ソリューション', subtitle: 'PS4 コンソール' },
+    common: { title: '共通の土台' },
+  },
+
+  slideMeta: {
+    title: {
+      title: 'ウェブは停滞している',
+      notes: '前置きなしで始める。「ウェブは停滞している」の一文をしばらく置いてから話し出す。今週、そっくりなランディングページを三つ見た人はいるか聞いてみる。',
+    },
+    'two-solutions': {
+      title: '二つの大胆な転換',
+      notes: 'OS と OS2 は A/B の案ではなく、同じ問いへの二つの答えとして示す。中央の「間」を指し、後で戻ってくると伝える。',
+    },
+    'influence-map': {
+      title: '影響の構造',
+      notes: '左から右へ。デスクトップ側の四つの影響、コンソール側の二つ、そして共有される一つの考え。個々の説明はまだしない。次のスライドで扱う。',
+    },
+    'os-solution': {
+      title: 'OS：デスクトップ・パラダイムという解',
+      notes: '水槽のメタファーが掴み。発表後に試せるよう /dec-launch/os のルートを伝える。',
+    },
+    'macos-intro': {
+      title: 'デスクトップ・パラダイム',
+      notes: '1973年、ゼロックス PARC。重なり合うウィンドウは五十年前の発明で、今も最良の空間メタファー。それを残しつつ、田中の配色で着せ替える。',
+    },
+    'mingei-intro': {
+      title: '民藝',
+      notes: '1926年、柳宗悦。「無名の職人」を強調する。インターフェースは作家の署名ではなく、良い道具のように感じられるべき。',
+    },
+    'boids-intro': {
+      title: 'ボイド・アルゴリズム',
+      notes: '1986年、クレイグ・レイノルズ。三つの規則、リーダーなし。時間があれば、空間ハッシュのおかげで実作業の背後でも軽く動くことに触れる。',
+    },
+    'dithering-intro': {
+      title: 'SVG ディザリング',
+      notes: 'CSS のぼかしと対比する。ぼかしはカメラのよう、ノイズによる変位は霧のよう。フォーカスの外れたウィンドウはこうして遠のく。',
+    },
+    'os2-solution': {
+      title: 'OS2：コンソール・インターフェースという解',
+      notes: 'ここで場の空気を切り替える。より暗く、よりゆっくり。/dec-launch/os2 のルートを伝える。',
+    },
+    'ps4-intro': {
+      title: 'PlayStation 4 の UI',
+      notes: '一億一千万台以上。会場のほとんどがこの UI を使ったことがある。放置したときにどう感じたかを思い出してもらう。',
+    },
+    'ps4-principles': {
+      title: 'PS4 インターフェースの原則',
+      notes: 'OS2 にとって重要なのは横の流れとコンテンツ優先の二つ。アンビエントな動きと暗いキャンバスは脇役。',
+    },
+    'ps4-visual': {
+      title: '横並びのメニュー',
+      notes: 'フォーカスされたタイルを指す。大きく、明るく、枠付き。OS2 はこのフォーカスモデルをそのまま使う。',
+    },
+    'tanaka-intro': {
+      title: '田中一光',
+      notes: '田中一光は無印良品のアイデンティティを手がけた。ブランドは誰もが知っているが、デザイナーを知る人は少ない。',
+    },
+    'tanaka-principles': {
+      title: '田中のデザイン原則',
+      notes: '「形としての漢字」で締める。OS2 のタイルがすべて一文字なのはそのため。',
+    },
+    'tanaka-visual': {
+      title: '日本舞踊の抽象化',
+      notes: '話を重ねず、構図が組み上がるのを見せる。円、帯、胴、四角。五つの形で描く踊り手。',
+    },
+    'common-thread': {
+      title: '彼らが理解していたこと',
+      notes: '間、侘寂、縁。講義はしない。一つにつき一文。サイドノートの一言は読ませるより口にしたほうが響く。',
+    },
+    'ma-concept': {
+      title: '間',
+      notes: '話す前にこのスライドでたっぷり二秒止まる。間を説明するのではなく、実演する。',
+    },
+    synthesis: {
+      title: '統合：田中 × PS4',
+      notes: '二つの列を交換として読む。田中からは幾何学と漢字、PS4 からはタイルとプレビュー。',
+    },
+    comparison: {
+      title: 'OS と OS2 の比較',
+      notes: '声に出すのは「フォーカスモデル」と「操作」の行だけ。残りは配布資料向け。macOS と PS4 の列を表示して、それぞれの解が参照元に対してどこにあるかを見せる。',
+    },
+    improvements: {
+      title: '改善の余地',
+      notes: 'これらはまだ作られていないと正直に伝える。会場に一つ選んでもらう。',
+    },
+    conclusion: {
+      title: '追うのをやめ、先を行け。',
+      notes: 'ゆっくり話す。「追うのをやめ、先を行け」が引用される一文になる。',
+    },
+    mockups: {
+      title: '「違う」とはこういうこと',
+      notes: '質疑応答の間はこれを表示しておく。魚やタイルの挙動を聞かれたら、実際のプロトタイプを開くと申し出る。',
+    },
+  },
+
+  shortcuts: {
+    next: '次のビルドステップまたはスライド',
+    prev: '前のビルドステップまたはスライド',
+    first: '最初のスライド',
+    last: '最後のスライド',
+    digit: 'スライド番号を入力',
+    jump: '入力した番号のスライドへ移動',
+    overview: 'スライド一覧',
+    presenter: '発表者ビューを開く',
+    fullscreen: '全画面表示の切り替え',
+    blackout: '画面を暗転',
+    theme: 'テーマ切り替え：システム、ライト、ダーク',
+    clock: '時刻スクラバー',
+    mute: '効果音のミュート切り替え',
+    motion: '動きの抑制を強制的に切り替え',
+    language: '言語切り替え：英語、日本語',
+    readings: '漢字の読み：なし、ふりがな、ローマ字',
+    help: 'このヘルプを表示',
+  },
+
+  kanji: {
+    間: { meaning: '間隔、物と物のあいだ', rationale: '二つのソリューションが共有する原則なので、その間に置いた。' },
+    群: { meaning: '群れ', rationale: 'Boids が描くのは一匹ではなく群れそのもの。' },
+    霧: { meaning: '霧', rationale: 'ディザリングは焦点の外れたウィンドウをぼかしではなく霧に変える。' },
+    窓: { meaning: 'ウィンドウ', rationale: 'デスクトップは窓でできている。OS も同じ。' },
+    民: { meaning: '民、人々', rationale: '民藝の一文字目。ふつうの人が、ふつうの人のために作る工芸。' },
+    民藝: { meaning: '民衆的工芸', rationale: '使われることで美しくなる日用品を指す、柳宗悦の言葉。' },
+    遊: { meaning: '遊び', rationale: 'コンソールは遊ぶためのもの。OS2 はそれに倣って作られている。' },
+    田: { meaning: '田んぼ', rationale: '田中の一文字目であり、それ自体がグリッドでもある。' },
+    田中一光: { meaning: 'グラフィックデザイナー（1930–2002）', rationale: '本人が書いたとおりの名前。' },
+    無印良品: { meaning: 'ブランドのない良い品', rationale: '田中が形づくった、ブランドがないことを名前にしたブランド。' },
+    侘寂: { meaning: '不完全さと古びの美', rationale: 'このデッキが磨き上げより個性を選ぶ理由。' },
+    縁: { meaning: 'つながり、えにし。ふちとも読む', rationale: '要素同士の関係こそがデザインである。' },
+    魚: { meaning: '魚', rationale: 'もとは魚の絵。形としての漢字をいちばんよく表す。' },
+    端: { meaning: 'はし、末端。端末の端', rationale: 'アプリのタイルとそのターミナルを表す。' },
+    書: { meaning: '書くこと、文書', rationale: 'ドキュメントのタイルを表す。' },
+    映: { meaning: '映す。映画の映', rationale: 'メディアのタイルを表す。' },
+    設: { meaning: '設ける。設定の設', rationale: '設定のタイルを表す。' },
+    店: { meaning: '店', rationale: 'ストアのタイルを表す。' },
+    用: { meaning: '用、役に立つこと', rationale: '民藝の第一の徳：使うために作られている。' },
+    健: { meaning: '健やかさ、丈夫さ', rationale: '民藝の第二の徳：頑丈で、偽りがない。' },
+    素: { meaning: '飾らないこと', rationale: '民藝の第三の徳：見せるために足したものがない。' },
+    拡: { meaning: '広げる', rationale: 'OS2 のパネルは広がってコンテンツを前に出す。' },
+    音: { meaning: '音', rationale: 'リズムを刻む環境のモーションと音の合図。' },
+  },
+
+  comparisons: {
+    os: {
+      subtitles: { os: 'デスクトップ', os2: 'コンソール', macos: '参照デスクトップ', ps4: '参照コンソール' },
+      aspects: {
+        navigation: {
+          label: 'ナビゲーション',
+          cells: {
+            os: 'ウィンドウをドラッグ、Dock をクリック',
+            os2: '矢印キーと大きなタイル',
+            macos: 'ウィンドウ、メニュー、Dock',
+            ps4: '十字キーでタイルの列を移動',
+          },
+        },
+        background: {
+          label: '背景',
+          cells: {
+            os: '泳ぐ魚（Boids）',
+            os2: '静止した幾何学模様',
+            macos: '静止した壁紙',
+            ps4: 'ゆっくりとした環境の波',
+          },
+        },
+        focus: {
+          label: 'フォーカスモデル',
+          cells: {
+            os: 'Z-index の重なり＋ディザリング',
+            os2: '拡大＋明るさ＋枠線',
+            macos: 'Z-index の重なり＋影',
+            ps4: '拡大＋ハイライト',
+          },
+        },
+        aesthetic: {
+          label: '美学',
+          cells: {
+            os: '温かく、有機的で、流れるよう',
+            os2: '暗く、幾何学的で、大胆',
+            macos: '明るく、光沢があり、重層的',
+            ps4: '暗く、穏やかで、青い',
+          },
+        },
+        interaction: {
+          label: 'インタラクション',
+          cells: {
+            os: 'マウス・タッチ優先',
+            os2: 'キーボード・コントローラー優先',
+            macos: 'マウスとトラックパッド',
+            ps4: 'DualShock コントローラー',
+          },
+        },
+        content: {
+          label: 'コンテンツ',
+          cells: {
+            os: '複数のウィンドウが見える',
+            os2: '一度に一つを展開',
+            macos: '重なり合う多くのウィンドウ',
+            ps4: '一つのアプリが画面を占める',
+          },
+        },
+      },
+    },
+  },
+
+  deck: {
+    presenter: '発表者ビューを開く (P)',
+    help: 'キーボードショートカット (?)',
+    helpTitle: 'キーボードショートカット',
+    helpTouch: 'タッチ端末では、スワイプするか画面の端をタップします。',
+    theme: 'テーマ：{preference} (T)',
+    themes: { system: 'システム', light: 'ライト', dark: 'ダーク' },
+    motionForced: '動きの抑制：強制オン (R)',
+    motionForce: '動きを抑制する (R)',
+    mute: '消音 (M)',
+    unmute: '消音を解除 (M)',
+    volume: '音量',
+    language: '言語：日本語 (L)',
+    annotation: '漢字の読み：{mode} (K)',
+    annotations: { off: 'なし', furigana: 'ふりがな', romaji: 'ローマ字' },
+  },
+
+  a11y: {
+    navigation: 'スライドナビゲーション',
+    settings: 'デッキの設定',
+    previous: '前のスライド',
+    next: '次のスライド',
+    slide: 'スライド',
+    slideLabel: 'スライド {number}：{title}',
+    announcement: 'スライド {number} / {total}：{title}',
+    console: {
+      label: 'OS2 コンソール。左右の矢印キーでタイルを移動、Enter で開く、Escape で戻る、M でオプションを表示。',
+      tile: '{label}、タイル {number} / {total}',
+      item: '{title}：{item}、{number} / {total}',
+      option: '{option}、オプション {number} / {total}',
+    },
+    diagrams: {
+      influenceMap: {
+        title: '影響マップ',
+        desc: 'OS は macOS、民藝、Boids、SVG ディザリングから、OS2 は PlayStation 4 と田中一光から影響を受けている。両者は「間」を共有する。矢印は影響、破線は共通の原則を示す。各影響からそのスライドへ移動できる。',
+      },
+      tanaka: {
+        title: '田中一光「日本舞踊」ポスターに倣った構成',
+        desc: '長い朱色の帯の下に顔となる大きな淡い円、胴体となる暗い長方形、その両脇に小さな朱色の正方形、足元に緑の斜線。',
+      },
+      mingei: {
+        title: '民藝の器',
+        desc: '側面に土色の輪がひとつだけ描かれた、飾り気のない黄土色の器。',
+      },
+      boids: {
+        title: 'Boids のライブシミュレーション',
+        desc: '分離・整列・結合の三つのルールだけで、一つの群れとして泳ぐ魚たち。下のスライダーで、動かしたまま各ルールを変えられる。',
+      },
+      dithering: {
+        title: 'ディザリングの比較',
+        desc: '仕切りの片側はくっきりと、もう片側はディザーフィルター越しに見えるサンプルウィンドウ。仕切りを動かして比較し、下のコントロールでフィルターを変えられる。',
+        divider: '仕切りの位置',
+      },
+    },
+  },
+
+  presenter: {
+    current: '現在',
+    next: '次',
+    elapsed: '経過',
+    remaining: '残り',
+    resetTimer: 'タイマーをリセット',
+    notes: 'ノート',
+    endOfDeck: 'スライドの終わり',
+    step: 'ステップ {step} / {steps}',
+  },
+
+  handout: {
+    title: 'Mino デザインの源流 — 配布資料',
+    single: '1ページに1枚',
+    double: '1ページに2枚',
+    print: '印刷',
+    onTheSlide: 'スライド上の注記',
+    speakerNotes: '発表者ノート',
+    noteLabels: { info: '情報', insight: '洞察', quote: '引用', tip: 'ヒント' },
+  },
+
+  influenceGraph: {
+    edgeKinds: {
+      inspires: '影響を与える',
+      'shares-principle': '原則を共有する',
+    },
+    nodes: {
+      os: { name: 'OS', description: 'デスクトップ・パラダイム' },
+      macos: { name: 'macOS', description: 'デスクトップ・パラダイム' },
+      mingei: { name: '民藝', description: '民衆的工芸の美' },
+      boids: { name: 'ボイド', description: '創発する振る舞い' },
+      dithering: { name: 'ディザリング', description: 'ノイズによる奥行き' },
+      ma: { name: '間', description: '日本の空間概念' },
+      os2: { name: 'OS2', description: 'コンソール・インターフェース' },
+      ps4: { name: 'PlayStation 4', description: '禅のインターフェース' },
+      tanaka: { name: '田中一光', description: '幾何学的ミニマリズム' },
+    },
+    goToSlide: '{name}：{description}。スライドへ移動。',
+  },
+
+  blocks: {
+    matrixLabel: '{systems} の比較',
+    aspect: '観点',
+    baseline: '基準',
+    highlightDifferences: '違いを強調',
+    mostDifferentFirst: '違いの大きい順',
+  },
+
+  controls: {
+    boids: { separation: '分離', alignment: '整列', cohesion: '結合', neighborRadius: '半径' },
+    dragToCompare: 'ドラッグして比較',
+    filterChain: 'SVG フィルターチェーン',
+    focused: 'フォーカス',
+    unfocused: '非フォーカス',
+    timeOfDay: '時刻',
+    live: '現在時刻',
+    phases: { dawn: '夜明け', day: '昼', dusk: '夕暮れ', night: '夜' },
+  },
+
+  console: {
+    tiles: {
+      fish: { label: '魚', title: '魚の水槽', subtitle: 'インタラクティブ • Boids シミュレーション', items: ['水槽を開く', '群れの大きさ', '流れ場'] },
+      apps: { label: 'アプリ', title: 'アプリ', subtitle: 'ターミナル • ツール • ユーティリティ', items: ['ターミナル', '電卓', '時計'] },
+      docs: { label: '書類', title: '書類', subtitle: '書く • 読む • メモ', items: ['最近', 'メモ', 'ポスター'] },
+      media: { label: 'メディア', title: 'メディア', subtitle: '映画 • 音楽 • 写真', items: ['映画', '音楽', '写真'] },
+      settings: { label: '設定', title: '設定', subtitle: 'ディスプレイ • サウンド • コントローラー', items: ['ディスプレイ', 'サウンド', 'コントローラー'] },
+      store: { label: 'ストア', title: 'ストア', subtitle: 'アプリ • テーマ • 壁紙', items: ['おすすめ', 'テーマ', '壁紙'] },
+    },
+    options: ['情報', 'お気に入りに追加', '設定'],
+    select: '決定',
+    back: '戻る',
+    optionsButton: 'OPTIONS',
+  },
+
+  desktop: {
+    apps: { files: 'ファイル', browser: 'ブラウザ', notes: 'メモ', music: '音楽', settings: '設定' },
+    finder: 'Finder',
+    menu: ['ファイル', '編集', '表示'],
+    close: '閉じる',
+    minimize: 'しまう',
+    ma: 'ま',
+    maBody: '空白は空ではない。そこに意味が宿る。',
+    folders: ['ポスター', '漢字', '魚'],
+    track: 'アンビエント No. 1',
+    trackDetail: 'リビングルーム、2013年',
+    toggles: ['Boids の魚', 'SVG ディザリング', 'アンビエントモーション'],
+  },
+
+  common: {
+    inMino: 'Mino では:',
+    whyItMatters: 'なぜ重要か:',
+    tech: '技術:',
+  },
+
+  slides: {
+    title: {
+      eyebrow: 'デザイン・マニフェスト',
+      headline: 'ウェブは停滞している。',
+      lead: '私たちは、その先をつくっている。',
+      tagline: 'テンプレートでもなく、流行でもなく。\n**新しいデザイン言語を。**',
+      insight: 'どのサイトも同じに見える。ヒーローセクション、カードグリッド、ハンバーガーメニュー。デザインが芸術になり得ることを、私たちは忘れてしまった。',
+      quote: '「ディテールはただのディテールではない。それがデザインをつくる。」— チャールズ・イームズ',
+      tip: '矢印キーで移動。? ですべてのショートカットを表示。',
+    },
+    twoSolutions: {
+      eyebrow: '二つの大胆な転換',
+      headline: '変化形ではない。**革命だ。**',
+      osTagline: '生きているデスクトップ',
+      osPitch: '呼吸するウィンドウ。群れで泳ぐ魚。**生態系としてのデスクトップ。**',
+      osWhy: 'デスクトップを生き生きと感じさせようとしている者は他にいない。これはテーマではなく、哲学だ。',
+      os2Tagline: '禅のコンソール',
+      os2Pitch: 'PlayStation の静けさと田中の幾何学の出会い。**瞑想としてのウェブサイト。**',
+      os2Why: 'どのサイトも注目を奪い合う。このサイトは静けさで注目を得る。',
+      footer: '道は違えど、行き先は同じ。**心を動かすこと。**',
+    },
+    tanakaIntro: {
+      name: 'たなか いっこう',
+      quote: '「デザインとは、形と内容を結びつける方法である。デザインには、芸術と同じく多くの定義があり、ただ一つの定義はない。」',
+      mujiCaption: 'ブランド・アイデンティティ',
+      mujiNameCaption: '「印のない良い品」',
+      rinpa: '琳派',
+      rinpaCaption: '美術の流派',
+    },
+    tanakaVisual: {
+      caption: '日本舞踊の抽象化',
+    },
+    ps4Intro: {
+      heading: 'PlayStation 4 の UI',
+      lead: '静かで集中できるインターフェース・デザインの手本',
+      quote: '「PS4 のインターフェースはリビングルームのように感じられるよう設計された。温かく、迎え入れ、決して注意を求めない。」',
+      unitsSold: '販売台数',
+      launchYear: '発売年',
+      zen: '禅',
+      philosophy: 'デザイン哲学',
+    },
+    ps4Visual: {
+      preview: 'コンテンツのプレビュー領域',
+      tiles: ['ゲーム', 'メディア', 'ストア', '設定'],
+      caption: '大きなタイル。横スクロール。フォーカス表現。ゆとりある余白。',
+    },
+    maConcept: {
+      name: 'ま',
+      gloss: '意味をはらむ沈黙',
+      lead: '間とは空虚ではなく、可能性である。物と物のあいだにあって、それらに意味を与える空間。',
+      relationship: '余白が関係を生む',
+      tanaka: '田中：構成としての余白',
+      ps4: 'PS4：コンテンツが呼吸する',
+    },
+    synthesis: {
+      heading: '統合：田中 × PS4',
+      fromTanaka: '田中から',
+      tanakaPoints: [
+        'ナビゲーションとしての大胆な幾何形態',
+        '文化的な響きをもつ漢字アイコン',
+        'ダークモードに宿るクラフト紙の温かみ',
+        '一色のアクセントという考え方',
+      ],
+      fromPs4: 'PS4 から',
+      ps4Points: [
+        '大きなタイルによる横方向のナビゲーション',
+        '選択の上に置かれたコンテンツのプレビュー',
+        'キーボードとスクロールホイールによる操作',
+        'アンビエントな動きとトランジション',
+      ],
+    },
+    improvements: {
+      heading: '改善の余地',
+      current: '現状',
+      improved: '改善後',
+      items: [
+        { title: 'ダイナミックなカラーシステム', current: 'セクションごとに固定のアクセント', improved: 'コンテンツと時刻に応じて変わる色' },
+        { title: '触覚的なフィードバック', current: '視覚のみのフィードバック', improved: '田中のリズムに合わせた控えめな音' },
+        { title: '文脈に応じた間', current: '固定の余白', improved: 'フォーカスに合わせて広がる余白' },
+        { title: '重なりによる奥行き', current: '平坦な階層', improved: 'フォーカス外の要素への SVG ディザリング' },
+      ],
+    },
+    conclusion: {
+      eyebrow: '行動への呼びかけ',
+      headline: '追うのをやめ、\n**先を行け。**',
+      body: 'ウェブに必要なのは、新たなヒーローセクションではない。\n新たなカードグリッドでもない。\n**画面が芸術になり得ることを覚えているデザイナーだ。**',
+      echo: '田中は詩のようなポスターをつくった。\nPlayStation は家のようなインターフェースをつくった。\n**私たちは体験のようなウェブサイトをつくる。**',
+      signoff: 'これが Mino だ。',
+      future: '未来',
+      insight: 'これは懐古ではない。うまくいったものを受け継ぎ、さらに先へ進めることだ。',
+      quote: '「雑音に満ちた世界では、静けさこそが革命である。」',
+    },
+    mockups: {
+      eyebrow: '見れば分かる',
+      heading: '「違う」とはこういうこと',
+      lead: 'モックアップではない。ピクセルで書いたマニフェストだ。',
+      osLabel: 'デスクトップ・パラダイム',
+      osFeatures: 'ドラッグできるウィンドウ • ボイドの魚 • SVG ディザリング',
+      os2Label: 'コンソール・インターフェース',
+      os2Features: 'PS4 風のナビゲーション • 大きなタイル • コンテンツ優先',
+      footer: '二つの道、一つの真実。**デザインは心を動かすべきだ。**',
+      wake: 'ウェブは眠っていた。**私たちが目を覚まさせる。**',
+      osNote: 'OS：つくる人のために。生活空間としてのウィンドウ、相棒としての魚。',
+      os2Note: 'OS2：思索する人のために。すべてのピクセルに意図がある。',
+    },
+    influenceMap: {
+      heading: '影響の構造',
+      caption: '二つの解は、それぞれ異なりながらも補い合う思想から生まれている。影響を選ぶとそのスライドへ移動する。',
+    },
+    mingeiIntro: {
+      caption: '日常の美',
+      name: 'みんげい',
+      subtitle: '民藝運動',
+      quote: '「真の美は、無名の職人が日々の用のためにつくった物に宿る。」',
+      body: '1926年に柳宗悦が提唱した民藝は、ありふれた実用品の美を称える。工業的な大量生産も、特権的な美術も退けて。',
+      utility: '実用',
+      health: '健やかさ',
+      simplicity: '簡素',
+      inMino: '私たちのデザインシステムは、インターフェースは手仕事の温かみをもちながら気取らないものであるべきだという民藝の原則に学んでいる。使い込まれ、自然に手になじむ道具のように。',
+    },
+    boidsIntro: {
+      heading: 'ボイド・アルゴリズム',
+      byline: 'クレイグ・レイノルズ、1986年',
+      quote: '「複雑な全体の振る舞いは、単純な局所的規則から生まれうる。」',
+      body: '三つの単純な規則が生き物らしい群れをつくる。**分離**(密集を避ける)、**整列**(近くの仲間と向きを揃える)、そして**結合**(群れの中心へ向かう)。',
+      hashing: '空間ハッシュ',
+      hashingText: '近傍探索を O(n) に抑えて高速化',
+      flowFields: 'パーリン・フローフィールド',
+      flowFieldsText: 'ノイズによる有機的な動き',
+      inMino: 'デスクトップ OS の魚はボイドで泳ぎ、生きて呼吸する水槽をつくる。一匹一匹は単純な規則に従うだけなのに、群れは一つになって動く。創発的なデザインのデジタルな寓話だ。',
+    },
+    ditheringIntro: {
+      heading: 'SVG ディザリング',
+      subtitle: '制御されたノイズによる奥行き',
+      quote: '「フォーカスの外れたものは空気となり、大切なものへ視線を導く。」',
+      body: '従来のぼかしは人工的に感じられる。私たちの SVG ディザリング・フィルターは**フラクタルノイズによる変位**で有機的な奥行きをつくる。すりガラスや朝霧越しに見るように。',
+      turbulence: 'パーリンノイズのテクスチャを生成',
+      displacement: 'ノイズでピクセルを歪める',
+      blur: '歪めた結果をやわらげる',
+      inMino: 'フォーカスの外れたウィンドウはこのフィルターで背景に溶け込み、硬い輪郭なしに視覚的な階層をつくる。伝統的な水墨画の重なり合う奥行きのように。',
+    },
+    macosIntro: {
+      heading: 'デスクトップ・パラダイム',
+      subtitle: 'メタファーとしてのウィンドウ',
+      quote: '「デスクトップは作業場ではない。思考のための空間だ。」',
+      body: '1973年のゼロックス PARC 以来、**重なり合うウィンドウ**というメタファーがコンピューティングを形づくってきた。ウィンドウはどれも入り口であり、ドラッグでき、重ねられる、デジタル空間の中の物体だ。',
+      features: [
+        { title: 'Z インデックスの重なり', text: 'フォーカスが重なりによって階層をつくる' },
+        { title: 'ドラッグできるウィンドウ', text: '空間の配置を使い手が決める' },
+        { title: '信号ボタン', text: '閉じる、しまう、広げる。誰にでも通じる' },
+        { title: '常にあるドック', text: 'よく使う道具にすぐ届く' },
+      ],
+      inMino: 'OS のページはこのパラダイムを田中の美学で再構成する。彼の配色の信号ボタン、禅の額縁としてのウィンドウ、筆置きとしてのドック。',
+    },
+    osSolution: {
+      subtitle: 'デスクトップ・パラダイムという解',
+      quote: '「ウィンドウが水面の睡蓮の葉のように浮かび、魚が作業空間を泳ぐデジタルの水槽。」',
+      features: [
+        { name: 'ウィンドウ', desc: 'ドラッグでき、重ねられ、Z 順をもつ' },
+        { name: '民藝スタイル', desc: '手仕事に学んだ温かな素材感' },
+        { name: 'ボイドの魚', desc: '生きて呼吸する背景' },
+        { name: 'SVG ディザリング', desc: '有機的な奥行きとフォーカス' },
+      ],
+      tech: ['React', 'Framer Motion', 'SVG フィルター', 'ボイド・アルゴリズム', 'パーリンノイズ'],
+    },
+    os2Solution: {
+      subtitle: 'コンソール・インターフェースという解',
+      quote: '「PlayStation の禅と田中の幾何学的な詩の出会い。大胆なタイル、漢字のアイコン、そして呼吸するコンテンツ。」',
+      features: [
+        { name: 'PS4 のナビゲーション', desc: '横並びのタイルメニュー' },
+        { name: '田中のアイコン', desc: '大胆な幾何形態としての漢字' },
+        { name: '展開するパネル', desc: 'コンテンツ優先のフォーカス' },
+        { name: 'アンビエントな動き', desc: '控えめに呼吸する UI' },
+      ],
+      tech: ['React', 'Framer Motion', 'キーボード操作', 'スクロールホイール', 'フォーカス表現'],
+    },
+  },
+};
@@ -0,0 +1,41 @@
+import * as tanakaPrinciples from './tanaka-principles.mdx';
+import * as ps4Principles from './ps4-principles.mdx';
+import * as commonThread from './common-thread.mdx';
+import * as comparison from './comparison.mdx';
+import * as tanakaPrinciplesJa from './ja/tanaka-principles.mdx';
+import * as ps4PrinciplesJa from './ja/ps4-principles.mdx';
+import * as commonThreadJa from './ja/common-thread.mdx';
+import * as comparisonJa from './ja/comparison.mdx';
+import type { MDXModule } from 'mdx/types';
+import type { Locale } from '@/lib/i18n';
+
+// ============================================
+// MDX SLIDES
+// Keyed by slide id. A new file needs one import and one entry
+// here, then a place in the slide registry (lib/slides.ts).
+// ============================================
+
+export const MDX_SLIDES = {
+  'tanaka-principles': tanakaPrinciples,
+  'ps4-principles': ps4Principles,
+  'common-thread': commonThread,
+  comparison,
+};
+
+export type MdxSlideId = keyof typeof MDX_SLIDES;
+
+// ============================================
+// TRANSLATIONS
+// Same ids, one folder per locale. Titles and notes come from the
+// locale catalog (content/locales), so these files carry no
+// frontmatter. A slide missing here falls back to English.
+// ============================================
+
+export const LOCALIZED_MDX_SLIDES: Partial<Record<Locale, Partial<Record<MdxSlideId, MDXModule>>>> = {
+  ja: {
+    'tanaka-principles': tanakaPrinciplesJa,
+    'ps4-principles': ps4PrinciplesJa,
+    'common-thread': commonThreadJa,
+    comparison: comparisonJa,
+  },
+};
@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react';
+import { isMotionFrozen } from '@/lib/motion';
+
+// ============================================
+// AUDIO CUES
+// Soft synthesized tones for navigation, so feedback isn't only
+// visual. Everything is built from oscillators at play time: no
+// files, no network. Notes come from the yo scale (D E G A B),
+// the pentatonic of Japanese folk song, so any two cues sound
+// right together.
+//
+// Browsers only allow audio after a user gesture; every cue here
+// follows a key press, click or pad press, which is what unlocks
+// the shared AudioContext.
+// ============================================
+
+export type AudioCue = 'slide-next' | 'slide-prev' | 'fragment' | 'tile-focus' | 'window-focus';
+
+interface Note {
+  frequency: number;
+  // Seconds after the cue starts
+  at: number;
+  duration: number;
+}
+
+const D5 = 587.33;
+const E5 = 659.25;
+const G4 = 392.0;
+const A4 = 440.0;
+const B4 = 493.88;
+
+const CUES: Record<AudioCue, { wave: OscillatorType; peak: number; notes: Note[] }> = {
+  // A rising step forward, falling back
+  'slide-next': { wave: 'sine', peak: 0.5, notes: [{ frequency: A4, at: 0, duration: 0.3 }, { frequency: D5, at: 0.09, duration: 0.4 }] },
+  'slide-prev': { wave: 'sine', peak: 0.5, notes: [{ frequency: D5, at: 0, duration: 0.3 }, { frequency: A4, at: 0.09, duration: 0.4 }] },
+  fragment: { wave: 'triangle', peak: 0.25, notes: [{ frequency: E5, at: 0, duration: 0.18 }] },
+  'tile-focus': { wave: 'sine', peak: 0.2, notes: [{ frequency: B4, at: 0, duration: 0.1 }] },
+  'window-focus': { wave: 'triangle', peak: 0.3, notes: [{ frequency: G4, at: 0, duration: 0.12 }, { frequency: B4, at: 0.05, duration: 0.2 }] },
+};
+
+// ============================================
+// SETTINGS
+// Stored per browser. With nothing stored, sound starts muted for
+// anyone who asks the OS for reduced motion: they asked for a
+// calmer deck, and sound is part of that.
+// ============================================
+
+export interface AudioSettings {
+  muted: boolean;
+  // 0 to 1
+  volume: number;
+}
+
+const STORAGE_KEY = 'mino-audio';
+const DEFAULT_VOLUME = 0.4;
+
+let settings: AudioSettings | null = null;
+const listeners = new Set<() => void>();
+
+function loadSettings(): AudioSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (typeof stored?.muted === 'boolean' && typeof stored?.volume === 'number') {
+      return { muted: stored.muted, volume: Math.min(Math.max(stored.volume, 0), 1) };
+    }
+  } catch {
+    // Unreadable or unavailable: fall through to the defaults
+  }
+  return {
+    muted: window.matchMedia('(prefers-reduced-motion: reduce)').matches,
+    volume: DEFAULT_VOLUME,
+  };
+}
+
+function getSettings() {
+  settings ??= loadSettings();
+  return settings;
+}
+
+export function updateAudioSettings(update: Partial<AudioSettings>) {
+  settings = { ...getSettings(), ...update };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Private browsing: the setting lasts for this page only
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function useAudioSettings() {
+  // Muted until mounted, so the server render matches
+  const [current, setCurrent] = useState<AudioSettings>({ muted: true, volume: DEFAULT_VOLUME });
+
+  useEffect(() => {
+    const sync = () => setCurrent(getSettings());
+    sync();
+    listeners.add(sync);
+    return () => void listeners.delete(sync);
+  }, []);
+
+  return current;
+}
+
+// ============================================
+// PLAYBACK
+// ============================================
+
+let context: AudioContext | null = null;
+
+export function playCue(cue: AudioCue) {
+  if (typeof window === 'undefined' || typeof AudioContext === 'undefined') return;
+  // Captured pages and background tabs stay silent
+  if (isMotionFrozen() || document.hidden) return;
+
+  const { muted, volume } = getSettings();
+  if (muted || volume === 0) return;
+
+  context ??= new AudioContext();
+  if (context.state === 'suspended') context.resume().catch(() => {});
+
+  const { wave, peak, notes } = CUES[cue];
+  const start = context.currentTime;
+
+  notes.forEach((note) => {
+    const oscillator = context!.createOscillator();
+    const gain = context!.createGain();
+    const begin = start + note.at;
+    const end = begin + note.duration;
+
+    oscillator.type = wave;
+    oscillator.frequency.value = note.frequency;
+    // Quick swell, long exponential tail: a struck bowl, not a beep
+    gain.gain.setValueAtTime(0, begin);
+    gain.gain.linearRampToValueAtTime(peak * volume, begin + 0.015);
+    gain.gain.exponentialRampToValueAtTime(0.0001, end);
+
+    oscillator.connect(gain).connect(context!.destination);
+    oscillator.start(begin);
+    oscillator.stop(end + 0.05);
+  });
+}
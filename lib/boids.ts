@@ -0,0 +1,200 @@
+import { createRandom, type Noise2D } from '@/lib/noise';
+
+// ============================================
+// BOIDS SIMULATION
+// Craig Reynolds, 1986: separation, alignment, cohesion — plus a
+// Perlin flow field so the school drifts instead of circling.
+// Neighbor lookup goes through a spatial hash grid, so each step
+// is O(n) rather than O(n²).
+// ============================================
+
+export interface Boid {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+export interface BoidsParams {
+  separation: number;
+  alignment: number;
+  cohesion: number;
+  neighborRadius: number;
+  maxSpeed: number;
+  flowStrength: number;
+}
+
+export interface Bounds {
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_BOIDS_PARAMS: BoidsParams = {
+  separation: 1.5,
+  alignment: 1,
+  cohesion: 1,
+  neighborRadius: 40,
+  maxSpeed: 2,
+  flowStrength: 0.3,
+};
+
+export function createFlock(count: number, bounds: Bounds, seed = 1): Boid[] {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () => {
+    const angle = random() * Math.PI * 2;
+    return {
+      x: random() * bounds.width,
+      y: random() * bounds.height,
+      vx: Math.cos(angle),
+      vy: Math.sin(angle),
+    };
+  });
+}
+
+// ============================================
+// SPATIAL HASH GRID
+// Buckets boids into square cells the size of the neighbor radius,
+// so a neighbor query only has to look at the 3×3 cells around it.
+// ============================================
+
+export interface SpatialHash {
+  cellSize: number;
+  cells: Map<number, number[]>;
+}
+
+function cellKey(cx: number, cy: number) {
+  // Offset keeps small negative cells (boids just off-canvas) unique
+  return (cx + 1024) * 4096 + (cy + 1024);
+}
+
+export function buildSpatialHash(flock: Boid[], cellSize: number): SpatialHash {
+  const cells = new Map<number, number[]>();
+  flock.forEach((boid, i) => {
+    const key = cellKey(Math.floor(boid.x / cellSize), Math.floor(boid.y / cellSize));
+    const bucket = cells.get(key);
+    if (bucket) {
+      bucket.push(i);
+    } else {
+      cells.set(key, [i]);
+    }
+  });
+  return { cellSize, cells };
+}
+
+export function forEachNeighbor(
+  hash: SpatialHash,
+  flock: Boid[],
+  index: number,
+  radius: number,
+  visit: (other: Boid, dx: number, dy: number, distance: number) => void,
+) {
+  const boid = flock[index];
+  const cx = Math.floor(boid.x / hash.cellSize);
+  const cy = Math.floor(boid.y / hash.cellSize);
+  const radiusSq = radius * radius;
+
+  for (let ox = -1; ox <= 1; ox++) {
+    for (let oy = -1; oy <= 1; oy++) {
+      const bucket = hash.cells.get(cellKey(cx + ox, cy + oy));
+      if (!bucket) continue;
+
+      for (const j of bucket) {
+        if (j === index) continue;
+        const other = flock[j];
+        const dx = other.x - boid.x;
+        const dy = other.y - boid.y;
+        const distSq = dx * dx + dy * dy;
+        if (distSq > 0 && distSq < radiusSq) {
+          visit(other, dx, dy, Math.sqrt(distSq));
+        }
+      }
+    }
+  }
+}
+
+// ============================================
+// STEP
+// Advances the flock in place. `dt` is in 60fps frames, so the
+// school moves at the same speed on any refresh rate.
+// ============================================
+
+const FLOW_SCALE = 0.004;
+const EDGE_MARGIN = 24;
+const EDGE_TURN = 0.15;
+
+export function stepFlock(
+  flock: Boid[],
+  params: BoidsParams,
+  bounds: Bounds,
+  noise: Noise2D,
+  time: number,
+  dt = 1,
+) {
+  const { separation, alignment, cohesion, neighborRadius, maxSpeed, flowStrength } = params;
+  const hash = buildSpatialHash(flock, neighborRadius);
+  const separationRadius = neighborRadius * 0.5;
+  const minSpeed = maxSpeed * 0.4;
+
+  // Compute every acceleration before moving anyone, so the order of
+  // the array doesn't bias the result.
+  const accelerations = flock.map((boid, i) => {
+    let count = 0;
+    let avgVx = 0;
+    let avgVy = 0;
+    let centerX = 0;
+    let centerY = 0;
+    let pushX = 0;
+    let pushY = 0;
+
+    forEachNeighbor(hash, flock, i, neighborRadius, (other, dx, dy, distance) => {
+      count++;
+      avgVx += other.vx;
+      avgVy += other.vy;
+      centerX += other.x;
+      centerY += other.y;
+      if (distance < separationRadius) {
+        pushX -= dx / distance / distance;
+        pushY -= dy / distance / distance;
+      }
+    });
+
+    let ax = 0;
+    let ay = 0;
+
+    if (count > 0) {
+      ax += (avgVx / count - boid.vx) * alignment * 0.05;
+      ay += (avgVy / count - boid.vy) * alignment * 0.05;
+      ax += (centerX / count - boid.x) * cohesion * 0.002;
+      ay += (centerY / count - boid.y) * cohesion * 0.002;
+      ax += pushX * separation * separationRadius * 0.05;
+      ay += pushY * separation * separationRadius * 0.05;
+    }
+
+    // Flow field: noise picks a heading for every point in the tank
+    const angle = noise(boid.x * FLOW_SCALE + time * 0.0002, boid.y * FLOW_SCALE) * Math.PI * 2;
+    ax += Math.cos(angle) * flowStrength * 0.05;
+    ay += Math.sin(angle) * flowStrength * 0.05;
+
+    // Soft walls: turn back before leaving the tank
+    if (boid.x < EDGE_MARGIN) ax += EDGE_TURN;
+    if (boid.x > bounds.width - EDGE_MARGIN) ax -= EDGE_TURN;
+    if (boid.y < EDGE_MARGIN) ay += EDGE_TURN;
+    if (boid.y > bounds.height - EDGE_MARGIN) ay -= EDGE_TURN;
+
+    return [ax, ay] as const;
+  });
+
+  flock.forEach((boid, i) => {
+    const [ax, ay] = accelerations[i];
+    boid.vx += ax * dt;
+    boid.vy += ay * dt;
+
+    const speed = Math.hypot(boid.vx, boid.vy) || 1;
+    const clamped = Math.min(maxSpeed, Math.max(minSpeed, speed));
+    boid.vx = (boid.vx / speed) * clamped;
+    boid.vy = (boid.vy / speed) * clamped;
+
+    boid.x += boid.vx * dt;
+    boid.y += boid.vy * dt;
+  });
+}
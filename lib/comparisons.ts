@@ -0,0 +1,161 @@
+// ============================================
+// COMPARISON MATRICES
+// Data for <ComparisonMatrix>: any number of systems, any number of
+// aspects. Each cell carries a short `trait` next to its wording, so
+// the matrix can tell which systems agree on an aspect even when
+// the text differs.
+// ============================================
+
+export interface ComparisonSystem<Id extends string = string> {
+  id: Id;
+  name: string;
+  subtitle: string;
+  // A token name (see lib/tokens) or a #rrggbb color
+  color: string;
+}
+
+export interface ComparisonCell {
+  value: string;
+  // Cells with the same trait agree
+  trait: string;
+}
+
+export interface ComparisonAspect<Id extends string = string, AspectId extends string = string> {
+  id: AspectId;
+  label: string;
+  cells: Record<Id, ComparisonCell>;
+}
+
+export interface ComparisonMatrixData<Id extends string = string, AspectId extends string = string> {
+  systems: readonly ComparisonSystem<Id>[];
+  aspects: readonly ComparisonAspect<Id, AspectId>[];
+}
+
+// Checks every aspect has a cell for every system
+export function defineMatrix<Id extends string, AspectId extends string>(matrix: ComparisonMatrixData<Id, AspectId>) {
+  return matrix;
+}
+
+// A matrix's wording, keyed by system and aspect id. The English is
+// gathered into the locale catalog (content/locales), where other
+// languages translate it; ids, colors and traits carry over, so
+// agreement is unaffected.
+export interface MatrixTranslation<Id extends string, AspectId extends string> {
+  subtitles: Record<Id, string>;
+  aspects: Record<AspectId, { label: string; cells: Record<Id, string> }>;
+}
+
+export function matrixWording<Id extends string, AspectId extends string>(
+  matrix: ComparisonMatrixData<Id, AspectId>
+): MatrixTranslation<Id, AspectId> {
+  return {
+    subtitles: Object.fromEntries(matrix.systems.map((system) => [system.id, system.subtitle])) as Record<Id, string>,
+    aspects: Object.fromEntries(
+      matrix.aspects.map((aspect) => [
+        aspect.id,
+        {
+          label: aspect.label,
+          cells: Object.fromEntries(
+            Object.entries<ComparisonCell>(aspect.cells).map(([id, cell]) => [id, cell.value])
+          ) as Record<Id, string>,
+        },
+      ])
+    ) as MatrixTranslation<Id, AspectId>['aspects'],
+  };
+}
+
+export function translateMatrix<Id extends string, AspectId extends string>(
+  matrix: ComparisonMatrixData<Id, AspectId>,
+  translation: MatrixTranslation<Id, AspectId>
+): ComparisonMatrixData<Id, AspectId> {
+  return {
+    systems: matrix.systems.map((system) => ({ ...system, subtitle: translation.subtitles[system.id] })),
+    aspects: matrix.aspects.map((aspect) => {
+      const { label, cells } = translation.aspects[aspect.id];
+      const translated = Object.fromEntries(
+        Object.entries<ComparisonCell>(aspect.cells).map(([id, cell]) => [id, { ...cell, value: cells[id as Id] }])
+      ) as Record<Id, ComparisonCell>;
+      return { ...aspect, label, cells: translated };
+    }),
+  };
+}
+
+// Distinct traits among the given systems: 1 means they all agree
+export function divergence(aspect: ComparisonAspect, systemIds: readonly string[]) {
+  return new Set(systemIds.map((id) => aspect.cells[id].trait)).size;
+}
+
+// ============================================
+// OS AND OS2, WITH THEIR REFERENCE POINTS
+// ============================================
+
+export const OS_COMPARISON = defineMatrix({
+  systems: [
+    { id: 'os', name: 'OS', subtitle: 'Desktop', color: 'pine' },
+    { id: 'os2', name: 'OS2', subtitle: 'Console', color: 'ps4' },
+    { id: 'macos', name: 'macOS', subtitle: 'Reference desktop', color: 'steel' },
+    { id: 'ps4', name: 'PS4', subtitle: 'Reference console', color: 'periwinkle' },
+  ],
+  aspects: [
+    {
+      id: 'navigation',
+      label: 'Navigation',
+      cells: {
+        os: { value: 'Drag windows, click dock', trait: 'direct' },
+        os2: { value: 'Arrow keys, large tiles', trait: 'directional' },
+        macos: { value: 'Windows, menus and the Dock', trait: 'direct' },
+        ps4: { value: 'D-pad along a row of tiles', trait: 'directional' },
+      },
+    },
+    {
+      id: 'background',
+      label: 'Background',
+      cells: {
+        os: { value: 'Animated fish (Boids)', trait: 'living' },
+        os2: { value: 'Static geometric patterns', trait: 'static' },
+        macos: { value: 'Static wallpaper', trait: 'static' },
+        ps4: { value: 'Slow ambient waves', trait: 'living' },
+      },
+    },
+    {
+      id: 'focus',
+      label: 'Focus Model',
+      cells: {
+        os: { value: 'Z-index stacking + dithering', trait: 'stacking' },
+        os2: { value: 'Scale + brightness + border', trait: 'spotlight' },
+        macos: { value: 'Z-index stacking + shadow', trait: 'stacking' },
+        ps4: { value: 'Scale + highlight', trait: 'spotlight' },
+      },
+    },
+    {
+      id: 'aesthetic',
+      label: 'Aesthetic',
+      cells: {
+        os: { value: 'Warm, organic, fluid', trait: 'warm' },
+        os2: { value: 'Dark, geometric, bold', trait: 'dark' },
+        macos: { value: 'Bright, glossy, layered', trait: 'bright' },
+        ps4: { value: 'Dark, calm, blue', trait: 'dark' },
+      },
+    },
+    {
+      id: 'interaction',
+      label: 'Interaction',
+      cells: {
+        os: { value: 'Mouse/touch-first', trait: 'pointer' },
+        os2: { value: 'Keyboard/controller-first', trait: 'controller' },
+        macos: { value: 'Mouse and trackpad', trait: 'pointer' },
+        ps4: { value: 'DualShock controller', trait: 'controller' },
+      },
+    },
+    {
+      id: 'content',
+      label: 'Content',
+      cells: {
+        os: { value: 'Multiple visible windows', trait: 'many' },
+        os2: { value: 'One expanded at a time', trait: 'one' },
+        macos: { value: 'Many overlapping windows', trait: 'many' },
+        ps4: { value: 'One app fills the screen', trait: 'one' },
+      },
+    },
+  ],
+});
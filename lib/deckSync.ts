@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { SlideId } from '@/lib/slides';
+
+// ============================================
+// DECK SYNC
+// Keeps the audience deck and the presenter window on the same
+// slide. The deck owns the position: it reports where it is, build
+// step included, and the presenter asks it to move, so stepping
+// from either side runs through fragments the same way.
+// ============================================
+
+const CHANNEL_NAME = 'mino-deck';
+
+export type DeckSyncMessage =
+  // Deck to presenter: the slide and how many of its steps show
+  | { type: 'state'; slideId: SlideId; step: number; steps: number }
+  // Presenter to deck
+  | { type: 'navigate'; slideId: SlideId }
+  | { type: 'step'; direction: 'next' | 'prev' }
+  | { type: 'request-state' };
+
+export function useDeckSync(onMessage: (message: DeckSyncMessage) => void) {
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const onMessageRef = useRef(onMessage);
+
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  }, [onMessage]);
+
+  useEffect(() => {
+    if (typeof BroadcastChannel === 'undefined') return;
+
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (e: MessageEvent<DeckSyncMessage>) => onMessageRef.current(e.data);
+    channelRef.current = channel;
+
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  return useCallback((message: DeckSyncMessage) => {
+    channelRef.current?.postMessage(message);
+  }, []);
+}
@@ -0,0 +1,112 @@
+// ============================================
+// FORCE-DIRECTED LAYOUT
+// Fruchterman–Reingold with two additions: each node is pulled
+// toward the x position of its group, so related nodes gather in
+// columns, and the cooling schedule is fixed. Starting positions are
+// derived from node order, so the same graph always lays out the
+// same way: no randomness, no flicker between renders or exports.
+// ============================================
+
+export interface LayoutNode {
+  id: string;
+  // 0 (left edge) to 1 (right edge): where this node's column sits
+  anchorX: number;
+}
+
+export interface LayoutEdge {
+  from: string;
+  to: string;
+  // Preferred edge length as a multiple of the base spacing
+  length?: number;
+}
+
+export interface LayoutOptions {
+  width: number;
+  height: number;
+  // Keeps node centers this far from the edges
+  padding?: number;
+  iterations?: number;
+  anchorStrength?: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export function forceLayout(
+  nodes: readonly LayoutNode[],
+  edges: readonly LayoutEdge[],
+  { width, height, padding = 60, iterations = 300, anchorStrength = 0.08 }: LayoutOptions
+): Record<string, Point> {
+  const area = (width - padding * 2) * (height - padding * 2);
+  const spacing = Math.sqrt(area / Math.max(nodes.length, 1));
+
+  // Spread each column's nodes down its anchor line
+  const columns = new Map<number, number>();
+  const positions = nodes.map((node) => {
+    const row = columns.get(node.anchorX) ?? 0;
+    columns.set(node.anchorX, row + 1);
+    return { x: padding + node.anchorX * (width - padding * 2), y: padding + (row + 0.5) * spacing * 0.8 };
+  });
+  const index = new Map(nodes.map((node, i) => [node.id, i]));
+
+  let temperature = width / 10;
+  const cooling = temperature / (iterations + 1);
+
+  for (let step = 0; step < iterations; step++) {
+    const displacement = nodes.map(() => ({ x: 0, y: 0 }));
+
+    // Every pair repels
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const dx = positions[i].x - positions[j].x;
+        const dy = positions[i].y - positions[j].y;
+        // Coincident nodes get nudged apart in a fixed direction
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = (spacing * spacing) / distance;
+        const fx = distance > 0.01 ? (dx / distance) * force : force;
+        const fy = distance > 0.01 ? (dy / distance) * force : 0;
+        displacement[i].x += fx;
+        displacement[i].y += fy;
+        displacement[j].x -= fx;
+        displacement[j].y -= fy;
+      }
+    }
+
+    // Edges attract toward their preferred length
+    edges.forEach((edge) => {
+      const a = index.get(edge.from);
+      const b = index.get(edge.to);
+      if (a === undefined || b === undefined) return;
+      const dx = positions[a].x - positions[b].x;
+      const dy = positions[a].y - positions[b].y;
+      const distance = Math.max(Math.hypot(dx, dy), 0.01);
+      const ideal = spacing * (edge.length ?? 1);
+      const force = (distance * distance) / ideal;
+      displacement[a].x -= (dx / distance) * force;
+      displacement[a].y -= (dy / distance) * force;
+      displacement[b].x += (dx / distance) * force;
+      displacement[b].y += (dy / distance) * force;
+    });
+
+    nodes.forEach((node, i) => {
+      // Column pull
+      const targetX = padding + node.anchorX * (width - padding * 2);
+      displacement[i].x += (targetX - positions[i].x) * anchorStrength * spacing;
+
+      const length = Math.max(Math.hypot(displacement[i].x, displacement[i].y), 0.01);
+      const move = Math.min(length, temperature);
+      positions[i].x = clamp(positions[i].x + (displacement[i].x / length) * move, padding, width - padding);
+      positions[i].y = clamp(positions[i].y + (displacement[i].y / length) * move, padding, height - padding);
+    });
+
+    temperature -= cooling;
+  }
+
+  return Object.fromEntries(nodes.map((node, i) => [node.id, positions[i]]));
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(value, min), max);
+}
@@ -0,0 +1,114 @@
+import { useEffect, useRef } from 'react';
+
+// ============================================
+// GAMEPAD
+// One shared rAF poller over navigator.getGamepads() plus an
+// in-page virtual pad, reporting button presses (not holds) to
+// every subscriber. The virtual pad goes through the same path as
+// hardware, so the harness exercises exactly what a controller does.
+// ============================================
+
+// Standard mapping indices: https://w3c.github.io/gamepad/#remapping
+// Named after the PlayStation layout the OS2 console borrows.
+export const GAMEPAD_BUTTONS = {
+  cross: 0,
+  circle: 1,
+  square: 2,
+  triangle: 3,
+  l1: 4,
+  r1: 5,
+  share: 8,
+  options: 9,
+  up: 12,
+  down: 13,
+  left: 14,
+  right: 15,
+} as const;
+
+export type GamepadButton = keyof typeof GAMEPAD_BUTTONS;
+
+const BUTTON_NAMES = Object.keys(GAMEPAD_BUTTONS) as GamepadButton[];
+
+// Elements marked data-gamepad-scope take the pad while focus is
+// inside them; the deck ignores presses so the two don't both react.
+export function isGamepadScopeFocused() {
+  return document.activeElement?.closest('[data-gamepad-scope]') != null;
+}
+
+// ============================================
+// VIRTUAL PAD
+// ============================================
+
+const virtualPressed = new Set<GamepadButton>();
+// A click can press and release between two polls; latching each
+// press until the next poll guarantees it is seen once.
+const virtualLatched = new Set<GamepadButton>();
+
+export function pressVirtualButton(button: GamepadButton) {
+  virtualPressed.add(button);
+  virtualLatched.add(button);
+}
+
+export function releaseVirtualButton(button: GamepadButton) {
+  virtualPressed.delete(button);
+}
+
+export function releaseAllVirtualButtons() {
+  virtualPressed.clear();
+}
+
+// ============================================
+// POLLER
+// ============================================
+
+type Listener = (button: GamepadButton) => void;
+
+const listeners = new Set<Listener>();
+let previous = new Set<GamepadButton>();
+let frameId = 0;
+
+function readPressed() {
+  const pressed = new Set(virtualPressed);
+  virtualLatched.forEach((button) => pressed.add(button));
+  virtualLatched.clear();
+  for (const pad of navigator.getGamepads?.() ?? []) {
+    // Non-standard pads number their buttons arbitrarily
+    if (!pad || pad.mapping !== 'standard') continue;
+    for (const name of BUTTON_NAMES) {
+      if (pad.buttons[GAMEPAD_BUTTONS[name]]?.pressed) pressed.add(name);
+    }
+  }
+  return pressed;
+}
+
+function poll() {
+  const pressed = readPressed();
+  pressed.forEach((button) => {
+    if (!previous.has(button)) listeners.forEach((listener) => listener(button));
+  });
+  previous = pressed;
+  frameId = requestAnimationFrame(poll);
+}
+
+export function subscribeGamepad(listener: Listener) {
+  listeners.add(listener);
+  if (listeners.size === 1) {
+    previous = readPressed();
+    frameId = requestAnimationFrame(poll);
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) cancelAnimationFrame(frameId);
+  };
+}
+
+export function useGamepadButtons(onPress: Listener) {
+  const onPressRef = useRef(onPress);
+
+  useEffect(() => {
+    onPressRef.current = onPress;
+  }, [onPress]);
+
+  useEffect(() => subscribeGamepad((button) => onPressRef.current(button)), []);
+}
@@ -0,0 +1,42 @@
+// ============================================
+// LOCALES
+// The deck reads in English or Japanese. Copy lives in catalogs
+// under content/locales; this module holds what the server also
+// needs: the locale list, the storage keys and the boot script
+// that sets <html lang> before first paint, so kanji are shaped
+// with Japanese glyphs rather than a Chinese fallback.
+// ============================================
+
+export type Locale = 'en' | 'ja';
+
+export const LOCALES: readonly Locale[] = ['en', 'ja'];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALE_STORAGE_KEY = 'mino-locale';
+
+// ?lang=ja opens the deck in Japanese for that page only (exports)
+export const LOCALE_QUERY_PARAM = 'lang';
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+// Readings shown over kanji: kana (furigana) or Latin (romaji)
+export type Annotation = 'off' | 'furigana' | 'romaji';
+
+export const ANNOTATIONS: readonly Annotation[] = ['off', 'furigana', 'romaji'];
+
+export const ANNOTATION_STORAGE_KEY = 'mino-annotation';
+
+export function isAnnotation(value: unknown): value is Annotation {
+  return ANNOTATIONS.includes(value as Annotation);
+}
+
+// Runs before hydration; mirrors readLocale in lib/useLocale
+export const LOCALE_BOOT_SCRIPT = `(function(){try{var l=new URLSearchParams(location.search).get(${JSON.stringify(LOCALE_QUERY_PARAM)})||localStorage.getItem(${JSON.stringify(LOCALE_STORAGE_KEY)});if(l==='en'||l==='ja')document.documentElement.lang=l}catch(e){}})()`;
+
+// Fills {name} placeholders in catalog strings
+export function format(template: string, values: Record<string, string | number>) {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? String(values[name]) : match));
+}
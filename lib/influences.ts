@@ -0,0 +1,74 @@
+import type { SlideId } from '@/lib/slides';
+import { colors } from '@/lib/tokens';
+
+// ============================================
+// INFLUENCE GRAPH
+// What shaped OS and OS2, as data. The influence map slide lays
+// this out automatically (lib/forceLayout), so adding an influence
+// means adding a node and its edges here, nothing more.
+// ============================================
+
+// os and os2 influences sit either side of their solution; shared
+// ideas sit between the two
+export type InfluenceGroup = 'os' | 'os2' | 'shared';
+
+export interface InfluenceNode {
+  id: string;
+  name: string;
+  kanji: string;
+  color: string;
+  description: string;
+  group: InfluenceGroup;
+  // Solutions are drawn larger than the influences feeding them
+  solution?: boolean;
+  // Clicking the node jumps here
+  slide: SlideId;
+}
+
+export type InfluenceEdgeKind = 'inspires' | 'shares-principle';
+
+export interface InfluenceEdge {
+  from: string;
+  to: string;
+  kind: InfluenceEdgeKind;
+}
+
+export const EDGE_KINDS: Record<InfluenceEdgeKind, { label: string; dashed: boolean }> = {
+  inspires: { label: 'Inspires', dashed: false },
+  'shares-principle': { label: 'Shares a principle', dashed: true },
+};
+
+export const INFLUENCE_NODES: readonly InfluenceNode[] = [
+  { id: 'os', name: 'OS', kanji: '窓', color: colors.pine, description: 'Desktop paradigm', group: 'os', solution: true, slide: 'os-solution' },
+  { id: 'macos', name: 'macOS', kanji: '窓', color: colors.steel, description: 'Desktop paradigm', group: 'os', slide: 'macos-intro' },
+  { id: 'mingei', name: 'Mingei', kanji: '民', color: colors.gold, description: 'Folk craft beauty', group: 'os', slide: 'mingei-intro' },
+  { id: 'boids', name: 'Boids', kanji: '群', color: colors.pine, description: 'Emergent behavior', group: 'os', slide: 'boids-intro' },
+  { id: 'dithering', name: 'Dithering', kanji: '霧', color: colors.dither, description: 'Depth through noise', group: 'os', slide: 'dithering-intro' },
+  { id: 'ma', name: 'Ma', kanji: '間', color: colors.ochre, description: 'Japanese space', group: 'shared', slide: 'ma-concept' },
+  { id: 'os2', name: 'OS2', kanji: '遊', color: colors.ps4, description: 'Console interface', group: 'os2', solution: true, slide: 'os2-solution' },
+  { id: 'ps4', name: 'PlayStation 4', kanji: '遊', color: colors.ps4, description: 'Zen interface', group: 'os2', slide: 'ps4-intro' },
+  { id: 'tanaka', name: 'Ikko Tanaka', kanji: '田', color: colors.tanaka, description: 'Geometric minimalism', group: 'os2', slide: 'tanaka-intro' },
+];
+
+export const INFLUENCE_EDGES: readonly InfluenceEdge[] = [
+  { from: 'macos', to: 'os', kind: 'inspires' },
+  { from: 'mingei', to: 'os', kind: 'inspires' },
+  { from: 'boids', to: 'os', kind: 'inspires' },
+  { from: 'dithering', to: 'os', kind: 'inspires' },
+  { from: 'ps4', to: 'os2', kind: 'inspires' },
+  { from: 'tanaka', to: 'os2', kind: 'inspires' },
+  { from: 'os', to: 'ma', kind: 'shares-principle' },
+  { from: 'os2', to: 'ma', kind: 'shares-principle' },
+  { from: 'mingei', to: 'ma', kind: 'shares-principle' },
+  { from: 'tanaka', to: 'ma', kind: 'shares-principle' },
+];
+
+// Ids of the node and everything one edge away
+export function neighborhood(id: string) {
+  const ids = new Set([id]);
+  INFLUENCE_EDGES.forEach((edge) => {
+    if (edge.from === id) ids.add(edge.to);
+    if (edge.to === id) ids.add(edge.from);
+  });
+  return ids;
+}
@@ -0,0 +1,167 @@
+// ============================================
+// KANJI DICTIONARY
+// Every kanji and kanji word the deck shows: how it is read (for the
+// furigana and romaji modes), what it means and why it was chosen
+// (for the popover). Keyed by the exact text a slide renders, so
+// compounds are read as words (民藝 is mingei, not min + gei).
+//
+// Meaning and rationale are English copy; content/locales gathers
+// them into the catalog, where other languages translate them.
+// ============================================
+
+export interface KanjiEntry {
+  // Hiragana, shown as furigana
+  kana: string;
+  // Hepburn, with macrons for long vowels
+  romaji: string;
+  meaning: string;
+  // One line on why the deck uses this glyph
+  rationale: string;
+}
+
+export const KANJI_DICTIONARY = {
+  間: {
+    kana: 'ま',
+    romaji: 'ma',
+    meaning: 'Interval; the space between',
+    rationale: 'The principle both solutions share, so it sits between them.',
+  },
+  群: {
+    kana: 'むれ',
+    romaji: 'mure',
+    meaning: 'School, flock, crowd',
+    rationale: 'Boids is about the group, not any one fish.',
+  },
+  霧: {
+    kana: 'きり',
+    romaji: 'kiri',
+    meaning: 'Mist, fog',
+    rationale: 'Dithering turns unfocused windows into mist rather than blur.',
+  },
+  窓: {
+    kana: 'まど',
+    romaji: 'mado',
+    meaning: 'Window',
+    rationale: 'The desktop is made of windows, and so is OS.',
+  },
+  民: {
+    kana: 'みん',
+    romaji: 'min',
+    meaning: 'People; the folk',
+    rationale: 'The first character of 民藝: craft made by and for ordinary people.',
+  },
+  民藝: {
+    kana: 'みんげい',
+    romaji: 'mingei',
+    meaning: 'Folk craft',
+    rationale: "Yanagi's word for everyday objects made beautiful by use.",
+  },
+  遊: {
+    kana: 'あそび',
+    romaji: 'asobi',
+    meaning: 'Play',
+    rationale: 'A console is for play, and OS2 is built like one.',
+  },
+  田: {
+    kana: 'た',
+    romaji: 'ta',
+    meaning: 'Rice field',
+    rationale: "The first character of Tanaka's name, and a grid in itself.",
+  },
+  田中一光: {
+    kana: 'たなかいっこう',
+    romaji: 'Tanaka Ikkō',
+    meaning: 'Ikko Tanaka, graphic designer (1930–2002)',
+    rationale: 'His name, written as he wrote it.',
+  },
+  無印良品: {
+    kana: 'むじるしりょうひん',
+    romaji: 'Mujirushi Ryōhin',
+    meaning: 'No-brand quality goods (Muji)',
+    rationale: 'The brand Tanaka shaped, named for having no brand.',
+  },
+  侘寂: {
+    kana: 'わびさび',
+    romaji: 'wabi-sabi',
+    meaning: 'Beauty in imperfection and age',
+    rationale: 'Why the deck prefers character over polish.',
+  },
+  縁: {
+    kana: 'えん',
+    romaji: 'en',
+    meaning: 'Connection, bond; also edge',
+    rationale: 'Relationships between elements are the design.',
+  },
+  魚: {
+    kana: 'さかな',
+    romaji: 'sakana',
+    meaning: 'Fish',
+    rationale: 'Once a drawing of a fish; the clearest case of kanji as form.',
+  },
+  端: {
+    kana: 'たん',
+    romaji: 'tan',
+    meaning: 'Edge, end; the 端 of 端末, terminal',
+    rationale: 'Stands for the Apps tile and its terminal.',
+  },
+  書: {
+    kana: 'しょ',
+    romaji: 'sho',
+    meaning: 'Writing, document',
+    rationale: 'Stands for the Documents tile.',
+  },
+  映: {
+    kana: 'えい',
+    romaji: 'ei',
+    meaning: 'Reflect, project; as in 映画, film',
+    rationale: 'Stands for the Media tile.',
+  },
+  設: {
+    kana: 'せつ',
+    romaji: 'setsu',
+    meaning: 'Set up; as in 設定, settings',
+    rationale: 'Stands for the Settings tile.',
+  },
+  店: {
+    kana: 'みせ',
+    romaji: 'mise',
+    meaning: 'Shop',
+    rationale: 'Stands for the Store tile.',
+  },
+  用: {
+    kana: 'よう',
+    romaji: 'yō',
+    meaning: 'Use, utility',
+    rationale: 'The first Mingei virtue: made to be used.',
+  },
+  健: {
+    kana: 'けん',
+    romaji: 'ken',
+    meaning: 'Health, soundness',
+    rationale: 'The second Mingei virtue: sturdy and honest.',
+  },
+  素: {
+    kana: 'そ',
+    romaji: 'so',
+    meaning: 'Plain, unadorned',
+    rationale: 'The third Mingei virtue: nothing added for show.',
+  },
+  拡: {
+    kana: 'かく',
+    romaji: 'kaku',
+    meaning: 'Expand, widen',
+    rationale: 'OS2 panels expand to put content first.',
+  },
+  音: {
+    kana: 'おと',
+    romaji: 'oto',
+    meaning: 'Sound',
+    rationale: 'Ambient motion and audio cues that set the rhythm.',
+  },
+} satisfies Record<string, KanjiEntry>;
+
+export type KanjiWord = keyof typeof KANJI_DICTIONARY;
+
+export function isKanjiWord(text: string): text is KanjiWord {
+  return Object.hasOwn(KANJI_DICTIONARY, text);
+}
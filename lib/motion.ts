@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from 'react';
+import { MotionGlobalConfig, useReducedMotion, type Transition } from 'framer-motion';
+
+// ============================================
+// STATIC MOTION
+// For pages that are captured rather than watched (export, handout):
+// every entrance animation jumps straight to its `animate` state and
+// looping ones park on their final keyframe.
+// ============================================
+
+// Call during render of the page root, so it is in place before any
+// slide mounts. These pages are standalone, so it is never reset.
+export function freezeMotion() {
+  MotionGlobalConfig.skipAnimations = true;
+}
+
+// Hand-rolled animation loops (canvas, timers) check this so captured
+// pages get one deterministic frame instead of a running loop.
+export function isMotionFrozen() {
+  return MotionGlobalConfig.skipAnimations;
+}
+
+// ============================================
+// REDUCED MOTION
+// Motion is reduced when the OS asks for it or when the presenter
+// forces it from the deck for a sensitive audience. The forced
+// setting is stored per browser, so the prototypes follow it too.
+// Reduced means: no looping motion, transforms jump instead of
+// travel (MotionPolicy), and slides cross-fade quickly.
+// ============================================
+
+const STORAGE_KEY = 'mino-reduce-motion';
+
+let forced: boolean | null = null;
+const listeners = new Set<() => void>();
+
+function isForced() {
+  if (forced === null) {
+    try {
+      forced = localStorage.getItem(STORAGE_KEY) === 'true';
+    } catch {
+      forced = false;
+    }
+  }
+  return forced;
+}
+
+export function setReducedMotionForced(value: boolean) {
+  forced = value;
+  try {
+    if (value) localStorage.setItem(STORAGE_KEY, 'true');
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Private browsing: the setting lasts for this page only
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function useReducedMotionForced() {
+  const [value, setValue] = useState(false);
+
+  useEffect(() => {
+    const sync = () => setValue(isForced());
+    sync();
+    listeners.add(sync);
+    return () => void listeners.delete(sync);
+  }, []);
+
+  return value;
+}
+
+export function useMotionReduced() {
+  const system = useReducedMotion();
+  const forcedValue = useReducedMotionForced();
+  return forcedValue || system === true;
+}
+
+// Wrap a looping transition: under reduced motion the animation
+// parks on its last keyframe instead of repeating. Keyframes in this
+// repo start and end on the resting value, so that is where it stays.
+export function useLoopTransition() {
+  const reduced = useMotionReduced();
+  return useCallback(
+    (transition: Transition): Transition => (reduced ? { duration: 0 } : { ...transition, repeat: Infinity }),
+    [reduced]
+  );
+}
@@ -0,0 +1,68 @@
+// ============================================
+// PERLIN NOISE
+// Seeded 2D gradient noise. Same seed, same field — so flow fields
+// look identical on every render and in static exports.
+// ============================================
+
+// Mulberry32: tiny seeded PRNG, good enough for visuals
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const GRADIENTS = [
+  [1, 1], [-1, 1], [1, -1], [-1, -1],
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+] as const;
+
+function fade(t: number) {
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+function lerp(a: number, b: number, t: number) {
+  return a + (b - a) * t;
+}
+
+export type Noise2D = (x: number, y: number) => number;
+
+// Returns a function yielding values in roughly [-1, 1]
+export function createNoise2D(seed = 1): Noise2D {
+  const random = createRandom(seed);
+  const permutation = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = permutation.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [permutation[i], permutation[j]] = [permutation[j], permutation[i]];
+  }
+  const perm = [...permutation, ...permutation];
+
+  const dot = (hash: number, x: number, y: number) => {
+    const [gx, gy] = GRADIENTS[hash & 7];
+    return gx * x + gy * y;
+  };
+
+  return (x, y) => {
+    const xi = Math.floor(x) & 255;
+    const yi = Math.floor(y) & 255;
+    const xf = x - Math.floor(x);
+    const yf = y - Math.floor(y);
+    const u = fade(xf);
+    const v = fade(yf);
+
+    const aa = perm[perm[xi] + yi];
+    const ab = perm[perm[xi] + yi + 1];
+    const ba = perm[perm[xi + 1] + yi];
+    const bb = perm[perm[xi + 1] + yi + 1];
+
+    return lerp(
+      lerp(dot(aa, xf, yf), dot(ba, xf - 1, yf), u),
+      lerp(dot(ab, xf, yf - 1), dot(bb, xf - 1, yf - 1), u),
+      v,
+    );
+  };
+}
@@ -0,0 +1,72 @@
+// ============================================
+// KEYBOARD SHORTCUTS
+// Every deck binding lives here. The deck dispatches on `command`;
+// the help overlay renders `display` as-is and the description from
+// the locale catalog, which gathers the English `description` below
+// by command (content/locales/en.ts) for other languages to translate.
+// ============================================
+
+export type DeckCommand =
+  | 'next'
+  | 'prev'
+  | 'first'
+  | 'last'
+  | 'digit'
+  | 'jump'
+  | 'overview'
+  | 'presenter'
+  | 'fullscreen'
+  | 'blackout'
+  | 'theme'
+  | 'clock'
+  | 'mute'
+  | 'motion'
+  | 'language'
+  | 'readings'
+  | 'help';
+
+export interface Shortcut {
+  command: DeckCommand;
+  // KeyboardEvent.key values
+  keys: readonly string[];
+  // What the help overlay prints on the keycaps
+  display: readonly string[];
+  // English copy; read it through messages.shortcuts[command]
+  description: string;
+}
+
+export const SHORTCUTS = [
+  { command: 'next', keys: ['ArrowRight', ' ', 'PageDown'], display: ['→', 'Space', 'PgDn'], description: 'Next build step or slide' },
+  { command: 'prev', keys: ['ArrowLeft', 'PageUp'], display: ['←', 'PgUp'], description: 'Previous build step or slide' },
+  { command: 'first', keys: ['Home'], display: ['Home'], description: 'First slide' },
+  { command: 'last', keys: ['End'], display: ['End'], description: 'Last slide' },
+  { command: 'digit', keys: ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'], display: ['0–9'], description: 'Type a slide number' },
+  { command: 'jump', keys: ['Enter'], display: ['Enter'], description: 'Jump to the typed slide number' },
+  { command: 'overview', keys: ['g', 'G', 'Escape'], display: ['G', 'Esc'], description: 'Slide overview' },
+  { command: 'presenter', keys: ['p', 'P'], display: ['P'], description: 'Open presenter view' },
+  { command: 'fullscreen', keys: ['f', 'F'], display: ['F'], description: 'Toggle fullscreen' },
+  { command: 'blackout', keys: ['b', 'B'], display: ['B'], description: 'Black screen' },
+  { command: 'theme', keys: ['t', 'T'], display: ['T'], description: 'Switch theme: system, light, dark' },
+  { command: 'clock', keys: ['c', 'C'], display: ['C'], description: 'Time-of-day scrubber' },
+  { command: 'mute', keys: ['m', 'M'], display: ['M'], description: 'Mute or unmute sound cues' },
+  { command: 'motion', keys: ['r', 'R'], display: ['R'], description: 'Force reduced motion on or off' },
+  { command: 'language', keys: ['l', 'L'], display: ['L'], description: 'Switch language: English, Japanese' },
+  { command: 'readings', keys: ['k', 'K'], display: ['K'], description: 'Kanji readings: off, furigana, romaji' },
+  { command: 'help', keys: ['?'], display: ['?'], description: 'Show this help' },
+] as const satisfies readonly Shortcut[];
+
+// Focused controls keep the keys they act on: fields and sliders take
+// every key, buttons and links take Space and Enter. Everything else
+// still reaches the deck, so T or M work with a button focused.
+const TEXT_CONTROL_SELECTOR = 'input, select, textarea, [role="slider"]';
+const ACTIVATABLE_SELECTOR = 'button, a[href], summary, [role="button"]';
+
+export function isKeyForControl(target: EventTarget | null, key: string) {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.closest(TEXT_CONTROL_SELECTOR)) return true;
+  return (key === ' ' || key === 'Enter') && target.closest(ACTIVATABLE_SELECTOR) !== null;
+}
+
+export function commandForKey(key: string): DeckCommand | undefined {
+  return SHORTCUTS.find((shortcut) => (shortcut.keys as readonly string[]).includes(key))?.command;
+}
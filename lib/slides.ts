@@ -0,0 +1,287 @@
+import type * as slideComponents from '@/components/slides';
+import { MDX_SLIDES, type MdxSlideId } from '@/content/slides';
+import { SURFACES, type Surface } from '@/lib/tokens';
+
+// ============================================
+// JAPANESE DESIGN INFLUENCES PRESENTATION
+//
+// Exploring the synthesis of:
+// 1. Ikko Tanaka - Geometric minimalism
+// 2. PlayStation 4 UI - Sony's zen interface
+// 3. Their common Japanese design heritage
+// ============================================
+
+export const SECTIONS = [
+  { id: 'intro', title: 'Introduction' },
+  { id: 'os', title: 'OS Solution', subtitle: 'Desktop Paradigm' },
+  { id: 'os2', title: 'OS2 Solution', subtitle: 'PS4 Console' },
+  { id: 'common', title: 'Common Ground' },
+] as const;
+
+export type SectionId = typeof SECTIONS[number]['id'];
+
+export type SlideComponentName = keyof typeof slideComponents;
+
+interface SlideMetadata {
+  id: string;
+  section: SectionId;
+  title: string;
+  // A surface role from lib/tokens; each theme decides its color
+  surface: Surface;
+  // Private to the presenter window — never rendered in the deck.
+  notes: string;
+}
+
+// Interactive slides are components in components/slides;
+// text slides are MDX files under content/slides.
+export type SlideDefinition =
+  | (SlideMetadata & { component: SlideComponentName })
+  | (SlideMetadata & { mdx: MdxSlideId });
+
+function isSectionId(value: string): value is SectionId {
+  return SECTIONS.some((section) => section.id === value);
+}
+
+function isSurface(value: string): value is Surface {
+  return SURFACES.includes(value as Surface);
+}
+
+// MDX slides carry their metadata as frontmatter, which is only
+// known once the file loads — so it is checked here, loudly.
+function mdxSlide<Id extends MdxSlideId>(id: Id) {
+  const { frontmatter } = MDX_SLIDES[id];
+
+  const field = (key: keyof SlideMetadata) => {
+    const value = frontmatter[key];
+    if (typeof value !== 'string') {
+      throw new Error(`content/slides/${id}.mdx: frontmatter "${key}" must be a string`);
+    }
+    return value;
+  };
+
+  if (field('id') !== id) {
+    throw new Error(`content/slides/${id}.mdx: frontmatter id "${field('id')}" does not match its file`);
+  }
+  const section = field('section');
+  if (!isSectionId(section)) {
+    throw new Error(`content/slides/${id}.mdx: unknown section "${section}"`);
+  }
+  const surface = field('surface');
+  if (!isSurface(surface)) {
+    throw new Error(`content/slides/${id}.mdx: unknown surface "${surface}"`);
+  }
+
+  return {
+    id,
+    mdx: id,
+    section,
+    title: field('title'),
+    surface,
+    notes: field('notes'),
+  };
+}
+
+// ============================================
+// SLIDE REGISTRY
+// Deck order, navigation, progress and presenter notes all
+// derive from this list. Adding a slide means adding one entry.
+// ============================================
+
+export const SLIDE_REGISTRY = [
+  {
+    id: 'title',
+    component: 'SlideTitle',
+    section: 'intro',
+    title: 'The Web is Stuck',
+    surface: 'canvas',
+    notes: 'Open cold. Let "The Web is Stuck" sit for a beat before saying anything. Ask who has seen three landing pages this week that looked identical.',
+  },
+  {
+    id: 'two-solutions',
+    component: 'SlideTwoSolutions',
+    section: 'intro',
+    title: 'Two Radical Departures',
+    surface: 'canvas',
+    notes: 'Frame OS and OS2 as two answers to the same question, not A/B variants. Point at the 間 in the middle — we come back to it later.',
+  },
+  {
+    id: 'influence-map',
+    component: 'SlideInfluenceMap',
+    section: 'intro',
+    title: 'Influence Architecture',
+    surface: 'canvas',
+    notes: 'Walk left to right: four desktop influences, two console influences, one shared idea. Do not explain each node yet; the next slides do that.',
+  },
+  // OS Solution - Desktop Paradigm
+  {
+    id: 'os-solution',
+    component: 'SlideOSSolution',
+    section: 'os',
+    title: 'OS: Desktop Paradigm Solution',
+    surface: 'harbor',
+    notes: 'The aquarium metaphor is the hook. Mention the route /dec-launch/os so people can try it after the talk.',
+  },
+  {
+    id: 'macos-intro',
+    component: 'SlideMacOSIntro',
+    section: 'os',
+    title: 'Desktop Paradigm',
+    surface: 'slate',
+    notes: 'Xerox PARC, 1973. The overlapping window is fifty years old and still the best spatial metaphor we have. We keep it, but re-skin it in Tanaka\'s palette.',
+  },
+  {
+    id: 'mingei-intro',
+    component: 'SlideMingeiIntro',
+    section: 'os',
+    title: 'Mingei',
+    surface: 'clay',
+    notes: 'Yanagi Sōetsu, 1926. Emphasise "unknown craftsmen" — the interface should feel like a good tool, not a signature piece.',
+  },
+  {
+    id: 'boids-intro',
+    component: 'SlideBoidsIntro',
+    section: 'os',
+    title: 'Boids Algorithm',
+    surface: 'lagoon',
+    notes: 'Craig Reynolds, 1986. Three rules, no leader. If time allows, mention spatial hashing keeps this cheap enough to run behind real work.',
+  },
+  {
+    id: 'dithering-intro',
+    component: 'SlideDitheringIntro',
+    section: 'os',
+    title: 'SVG Dithering',
+    surface: 'twilight',
+    notes: 'Contrast with CSS blur: blur looks like a camera, noise displacement looks like mist. This is how unfocused windows recede.',
+  },
+  // OS2 Solution - PS4 Console
+  {
+    id: 'os2-solution',
+    component: 'SlideOS2Solution',
+    section: 'os2',
+    title: 'OS2: Console Interface Solution',
+    surface: 'console',
+    notes: 'Switch the room\'s mood here: darker, slower. Mention the route /dec-launch/os2.',
+  },
+  {
+    id: 'ps4-intro',
+    component: 'SlidePS4Intro',
+    section: 'os2',
+    title: 'PlayStation 4 UI',
+    surface: 'console',
+    notes: '110M+ units — most people in the room have used this UI. Ask them to remember how it felt to leave it idle.',
+  },
+  mdxSlide('ps4-principles'),
+  {
+    id: 'ps4-visual',
+    component: 'SlidePS4Visual',
+    section: 'os2',
+    title: 'The Horizontal Menu',
+    surface: 'console',
+    notes: 'Point at the focused tile: bigger, brighter, bordered. That focus model is exactly what OS2 reuses.',
+  },
+  {
+    id: 'tanaka-intro',
+    component: 'SlideTanakaIntro',
+    section: 'os2',
+    title: 'Ikko Tanaka',
+    surface: 'paper',
+    notes: 'Ikko Tanaka designed the MUJI identity. Most people know the brand, few know the designer.',
+  },
+  mdxSlide('tanaka-principles'),
+  {
+    id: 'tanaka-visual',
+    component: 'SlideTanakaVisual',
+    section: 'os2',
+    title: 'Nihon Buyo Abstraction',
+    surface: 'sand',
+    notes: 'Let the composition build without talking over it. Circle, bar, body, squares — a dancer from five shapes.',
+  },
+  // Common Ground
+  mdxSlide('common-thread'),
+  {
+    id: 'ma-concept',
+    component: 'SlideMaConcept',
+    section: 'common',
+    title: 'Ma',
+    surface: 'paper',
+    notes: 'Pause for a full two seconds on this slide before speaking. Demonstrate Ma rather than describe it.',
+  },
+  {
+    id: 'synthesis',
+    component: 'SlideSynthesis',
+    section: 'common',
+    title: 'The Synthesis: Tanaka × PS4',
+    surface: 'canvas',
+    notes: 'Read the two columns as a trade: geometry and kanji from Tanaka, tiles and preview from PS4.',
+  },
+  mdxSlide('comparison'),
+  {
+    id: 'improvements',
+    component: 'SlideImprovements',
+    section: 'common',
+    title: 'Opportunities for Improvement',
+    surface: 'canvas',
+    notes: 'Be honest that these are not built yet. Invite the room to pick one.',
+  },
+  {
+    id: 'conclusion',
+    component: 'SlideConclusion',
+    section: 'common',
+    title: 'Stop Following. Start Leading.',
+    surface: 'canvas',
+    notes: 'Slow down. "Stop following, start leading" is the line people will quote.',
+  },
+  {
+    id: 'mockups',
+    component: 'SlideMockups',
+    section: 'common',
+    title: 'This Is What Different Looks Like',
+    surface: 'canvas',
+    notes: 'Leave this up during Q&A. Offer to open the live prototypes if anyone asks how the fish or tiles behave.',
+  },
+] as const satisfies readonly SlideDefinition[];
+
+export type SlideId = typeof SLIDE_REGISTRY[number]['id'];
+export type Slide = typeof SLIDE_REGISTRY[number];
+
+export const SLIDES: readonly SlideId[] = SLIDE_REGISTRY.map((slide) => slide.id);
+
+// Build-time check: every slide component exported from
+// components/slides, and every MDX file in content/slides, must be
+// registered above. An orphan fails type-checking with its name in
+// the error.
+type OrphanedSlideComponent = Exclude<SlideComponentName, Extract<Slide, { component: string }>['component']>;
+export const ALL_SLIDE_COMPONENTS_REGISTERED: [OrphanedSlideComponent] extends [never]
+  ? true
+  : { orphaned: OrphanedSlideComponent } = true;
+
+type OrphanedMdxSlide = Exclude<MdxSlideId, Extract<Slide, { mdx: string }>['mdx']>;
+export const ALL_MDX_SLIDES_REGISTERED: [OrphanedMdxSlide] extends [never]
+  ? true
+  : { orphaned: OrphanedMdxSlide } = true;
+
+export function isSlideId(value: string): value is SlideId {
+  return (SLIDES as readonly string[]).includes(value);
+}
+
+export function getSlide(slideId: SlideId): Slide {
+  return SLIDE_REGISTRY[SLIDES.indexOf(slideId)];
+}
+
+export function getSectionSlides(sectionId: SectionId): Slide[] {
+  return SLIDE_REGISTRY.filter((slide) => slide.section === sectionId);
+}
+
+// ============================================
+// ROUTING
+// Every slide lives at /slides/[slideId]
+// ============================================
+
+export function slidePath(slideId: SlideId) {
+  return `/slides/${slideId}`;
+}
+
+export function slideIdFromPath(pathname: string): SlideId | null {
+  const segment = pathname.split('/').filter(Boolean).pop() ?? '';
+  return isSlideId(segment) ? segment : null;
+}
@@ -0,0 +1,42 @@
+import { hexChannels, themes, themeVariable, type ThemeName, type ThemeRole } from '@/lib/tokens';
+
+// ============================================
+// THEME STYLESHEET
+// Turns the themes in lib/tokens into CSS variables. With no stored
+// choice the deck follows prefers-color-scheme; a choice made with
+// the toggle is kept in localStorage and wins from then on. The
+// root layout inlines both the stylesheet and the boot script, so
+// the first paint is already in the right theme.
+// ============================================
+
+export type ThemePreference = ThemeName | 'system';
+
+export const THEME_STORAGE_KEY = 'mino-theme';
+
+export const THEME_PREFERENCES: readonly ThemePreference[] = ['system', 'light', 'dark'];
+
+export function isThemePreference(value: unknown): value is ThemePreference {
+  return THEME_PREFERENCES.includes(value as ThemePreference);
+}
+
+function declarations(theme: ThemeName) {
+  const roles = Object.entries(themes[theme]) as [ThemeRole, string][];
+  return [
+    `color-scheme:${theme};`,
+    ...roles.map(([role, hex]) => `${themeVariable(role)}:${hexChannels(hex)};`),
+  ].join('');
+}
+
+export const THEME_STYLESHEET = [
+  `:root{${declarations('dark')}}`,
+  `@media (prefers-color-scheme: light){:root{${declarations('light')}}}`,
+  `:root[data-theme="dark"]{${declarations('dark')}}`,
+  `:root[data-theme="light"]{${declarations('light')}}`,
+].join('\n');
+
+// Runs before hydration; mirrors resolveTheme below
+export const THEME_BOOT_SCRIPT = `(function(){try{var p=localStorage.getItem(${JSON.stringify(THEME_STORAGE_KEY)});document.documentElement.dataset.theme=p==='light'||p==='dark'?p:matchMedia('(prefers-color-scheme: light)').matches?'light':'dark'}catch(e){}})()`;
+
+export function resolveTheme(preference: ThemePreference, systemTheme: ThemeName): ThemeName {
+  return preference === 'system' ? systemTheme : preference;
+}
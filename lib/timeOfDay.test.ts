@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { DAY_PALETTES, MINUTES_PER_DAY, minutesOfDay, paletteAt, phaseAt } from '@/lib/timeOfDay';
+
+// 17:00 is halfway from the day keyframe (16:00) to dusk (18:00)
+const BLEND_AT_17_00 = { accent: '#b73c44', glow: '#dcaf8a', sky: '#654c67', deep: '#212435' };
+
+// Local-time constructor, so the clock reads the same in any time zone
+function at(hours: number, minutes = 0) {
+  return minutesOfDay(new Date(2024, 5, 1, hours, minutes));
+}
+
+describe('phaseAt', () => {
+  it('switches phase halfway between keyframes', () => {
+    expect(phaseAt(at(5, 44))).toBe('night');
+    expect(phaseAt(at(5, 45))).toBe('dawn');
+    expect(phaseAt(at(7, 44))).toBe('dawn');
+    expect(phaseAt(at(7, 45))).toBe('day');
+    expect(phaseAt(at(16, 59))).toBe('day');
+    expect(phaseAt(at(17, 0))).toBe('dusk');
+    expect(phaseAt(at(18, 59))).toBe('dusk');
+    expect(phaseAt(at(19, 0))).toBe('night');
+  });
+
+  it('stays night across midnight', () => {
+    expect(phaseAt(at(23, 59))).toBe('night');
+    expect(phaseAt(at(0, 0))).toBe('night');
+    expect(phaseAt(-1)).toBe('night');
+  });
+});
+
+describe('paletteAt', () => {
+  it('matches each phase palette on its keyframe', () => {
+    expect(paletteAt(at(0, 0))).toEqual(DAY_PALETTES.night);
+    expect(paletteAt(at(6, 30))).toEqual(DAY_PALETTES.dawn);
+    expect(paletteAt(at(12, 0))).toEqual(DAY_PALETTES.day);
+    expect(paletteAt(at(18, 0))).toEqual(DAY_PALETTES.dusk);
+    expect(paletteAt(at(22, 0))).toEqual(DAY_PALETTES.night);
+  });
+
+  it('blends between keyframes', () => {
+    expect(paletteAt(at(17, 0))).toEqual(BLEND_AT_17_00);
+  });
+
+  it('wraps around midnight', () => {
+    expect(paletteAt(MINUTES_PER_DAY)).toEqual(paletteAt(0));
+    expect(paletteAt(-1)).toEqual(paletteAt(at(23, 59)));
+    expect(paletteAt(MINUTES_PER_DAY + at(17, 0))).toEqual(BLEND_AT_17_00);
+  });
+
+  it('gives the same colors for the same clock', () => {
+    expect(paletteAt(at(7, 15))).toEqual(paletteAt(at(7, 15)));
+  });
+});
@@ -0,0 +1,186 @@
+import { useEffect, useState, type CSSProperties } from 'react';
+import { colors, hexChannels } from '@/lib/tokens';
+import { isMotionFrozen } from '@/lib/motion';
+
+// ============================================
+// TIME OF DAY
+// The accent and the ambient gradients follow the local clock:
+// four palettes, each mixed from the Tanaka base colors, blended
+// between keyframes across the day. paletteAt is pure, so a fixed
+// clock always gives the same colors; ?time=HH:MM or the scrubber
+// pins the clock for demos.
+// ============================================
+
+export type DayPhase = 'dawn' | 'day' | 'dusk' | 'night';
+
+export interface DayPalette {
+  // Replaces Tanaka red where the accent should move with the day
+  accent: string;
+  // The light source: radial glows over slides
+  glow: string;
+  // Top and bottom of the prototypes' background gradients
+  sky: string;
+  deep: string;
+}
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+// Captured pages (export, handout) and unparseable input land here
+export const DEFAULT_MINUTES = 12 * 60;
+
+function mix(from: string, to: string, amount: number) {
+  const a = hexChannels(from).split(' ').map(Number);
+  const b = hexChannels(to).split(' ').map(Number);
+  return `#${a
+    .map((channel, i) => Math.round(channel + (b[i] - channel) * amount).toString(16).padStart(2, '0'))
+    .join('')}`;
+}
+
+export const DAY_PALETTES: Record<DayPhase, DayPalette> = {
+  dawn: {
+    accent: mix(colors.tanaka, colors.ochre, 0.35),
+    glow: mix(colors.ochre, colors.kraft, 0.3),
+    sky: mix(colors.harbor, colors.tanaka, 0.35),
+    deep: mix(colors.night, colors.harbor, 0.5),
+  },
+  day: {
+    accent: colors.tanaka,
+    glow: colors.kraft,
+    sky: mix(colors.harbor, colors.kraft, 0.2),
+    deep: colors.harbor,
+  },
+  dusk: {
+    accent: mix(colors.tanaka, colors.dither, 0.25),
+    glow: mix(colors.tanaka, colors.ochre, 0.5),
+    sky: mix(colors.dither, colors.tanaka, 0.3),
+    deep: mix(colors.night, colors.dither, 0.3),
+  },
+  night: {
+    accent: mix(colors.tanaka, colors.ps4, 0.45),
+    glow: colors.ps4,
+    sky: mix(colors.console, colors.ps4, 0.3),
+    deep: colors.console,
+  },
+};
+
+// Holds through the middle of the day and night, blends at the edges
+const KEYFRAMES: readonly { minute: number; phase: DayPhase }[] = [
+  { minute: 0, phase: 'night' },
+  { minute: 5 * 60, phase: 'night' },
+  { minute: 6 * 60 + 30, phase: 'dawn' },
+  { minute: 9 * 60, phase: 'day' },
+  { minute: 16 * 60, phase: 'day' },
+  { minute: 18 * 60, phase: 'dusk' },
+  { minute: 20 * 60, phase: 'night' },
+  { minute: MINUTES_PER_DAY, phase: 'night' },
+];
+
+function wrapMinutes(minutes: number) {
+  return ((Math.floor(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+}
+
+// The keyframes either side of `minutes`, and how far between them
+function segmentAt(minutes: number) {
+  const m = wrapMinutes(minutes);
+  const end = KEYFRAMES.findIndex((keyframe) => keyframe.minute > m);
+  const from = KEYFRAMES[end - 1];
+  const to = KEYFRAMES[end];
+  return { from, to, amount: (m - from.minute) / (to.minute - from.minute) };
+}
+
+export function phaseAt(minutes: number): DayPhase {
+  const { from, to, amount } = segmentAt(minutes);
+  return amount < 0.5 ? from.phase : to.phase;
+}
+
+export function paletteAt(minutes: number): DayPalette {
+  const { from, to, amount } = segmentAt(minutes);
+  const a = DAY_PALETTES[from.phase];
+  const b = DAY_PALETTES[to.phase];
+  return {
+    accent: mix(a.accent, b.accent, amount),
+    glow: mix(a.glow, b.glow, amount),
+    sky: mix(a.sky, b.sky, amount),
+    deep: mix(a.deep, b.deep, amount),
+  };
+}
+
+export function minutesOfDay(date: Date) {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+export function formatMinutes(minutes: number) {
+  const m = wrapMinutes(minutes);
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+}
+
+// 'HH:MM' -> minutes, or null
+export function parseMinutes(value: string) {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+// CSS variables for Tailwind's tod-* colors (bg-tod-accent, from-tod-glow/20)
+export function dayPaletteVariables(palette: DayPalette) {
+  return {
+    '--tod-accent': hexChannels(palette.accent),
+    '--tod-glow': hexChannels(palette.glow),
+    '--tod-sky': hexChannels(palette.sky),
+    '--tod-deep': hexChannels(palette.deep),
+  } as CSSProperties;
+}
+
+// ============================================
+// CLOCK
+// One pinned time shared by every component on the page, so the
+// scrubber moves the deck and an embedded prototype together.
+// ============================================
+
+const TIME_QUERY_PARAM = 'time';
+
+let pinnedMinutes: number | null = null;
+let queryRead = false;
+const listeners = new Set<() => void>();
+
+export function pinTimeOfDay(minutes: number | null) {
+  pinnedMinutes = minutes === null ? null : wrapMinutes(minutes);
+  listeners.forEach((listener) => listener());
+}
+
+function readQuery() {
+  if (queryRead) return;
+  queryRead = true;
+  const value = new URLSearchParams(window.location.search).get(TIME_QUERY_PARAM);
+  if (value) pinnedMinutes = parseMinutes(value) ?? DEFAULT_MINUTES;
+}
+
+export function useTimeOfDay() {
+  // Start from the fixed default so server and client render alike
+  const [now, setNow] = useState(DEFAULT_MINUTES);
+  const [pinned, setPinned] = useState<number | null>(null);
+
+  useEffect(() => {
+    readQuery();
+    const sync = () => setPinned(pinnedMinutes);
+    sync();
+    listeners.add(sync);
+
+    // Captured pages stay on DEFAULT_MINUTES so every capture matches
+    if (isMotionFrozen()) return () => void listeners.delete(sync);
+
+    const tick = () => setNow(minutesOfDay(new Date()));
+    tick();
+    const interval = setInterval(tick, 30_000);
+    return () => {
+      listeners.delete(sync);
+      clearInterval(interval);
+    };
+  }, []);
+
+  const minutes = pinned ?? now;
+  return { minutes, live: pinned === null, phase: phaseAt(minutes), palette: paletteAt(minutes) };
+}
@@ -0,0 +1,184 @@
+// ============================================
+// DESIGN TOKENS
+// The Tanaka/PS4 palette and the scales built around Ma. Tailwind
+// reads these through tailwind.config.ts (bg-tanaka, p-ma, text-title,
+// duration-slow); SVG fills and framer-motion import them directly.
+// Re-theming the deck starts and ends here.
+// ============================================
+
+export const colors = {
+  // Tanaka red: the accent on every slide
+  tanaka: '#c23a3a',
+  // OS green: the desktop solution, the aquarium
+  pine: '#2a6a4a',
+  // PS4 blue: the console solution
+  ps4: '#3a4a8a',
+  // Lighter pine and PS4 blue, for text on dark surfaces
+  fern: '#4a8a6a',
+  periwinkle: '#5a6aaa',
+  // macOS: the reference desktop
+  steel: '#4a6a8a',
+  tide: '#2a4a5a',
+  ochre: '#c4a020',
+  // Kraft paper: light slide backgrounds
+  kraft: '#f5f0e6',
+  sand: '#d4c4a8',
+  // Dither purple: the SVG filter playground
+  dither: '#6a4a8a',
+  // Mingei wood and lacquer
+  bark: '#5a4a2a',
+  gold: '#8b6914',
+  umber: '#6b4914',
+  // PlayStation face buttons: triangle, circle, cross, square
+  jade: '#00cc55',
+  coral: '#f05454',
+  aqua: '#00d9f5',
+  blossom: '#ec87c0',
+  ink: '#1a1a18',
+  night: '#0a0a0a',
+  console: '#0a0a12',
+  harbor: '#1a2a3a',
+  // Deep end of the harbor gradient behind the desktop
+  abyss: '#0a1520',
+} as const;
+
+export type ColorToken = keyof typeof colors;
+
+function isColorToken(value: string): value is ColorToken {
+  return value in colors;
+}
+
+// MDX frontmatter and props name colors as text; accept a token
+// name or any literal CSS color.
+export function resolveColor(value: string) {
+  return isColorToken(value) ? colors[value] : value;
+}
+
+// Window chrome for the desktop mockups, dark to light, plus the
+// fixed dark panels that sit over any theme. These depict a dark UI,
+// so they stay put when the deck switches themes (bg-chrome-800).
+export const chrome = {
+  900: '#2a3a4a',
+  800: '#3a4a5a',
+  700: '#4a5a6a',
+  600: '#5a6a7a',
+  500: '#6a7a8a',
+  // The macOS mockup's desk and menu bar
+  desk: '#1a1a2a',
+  menu: '#2a2a3a',
+  // Title bar of the PS4-blue sample window
+  title: '#4a5a9a',
+  // Behind the dithering playground
+  well: '#12121f',
+  // Shortcut help and the virtual gamepad
+  panel: '#141414',
+  pad: '#1a1a1a',
+} as const;
+
+// The OS2 console: PlayStation blue on deep navy (bg-os2-void)
+export const os2Colors = {
+  blue: '#0066cc',
+  deep: '#004499',
+  void: '#000810',
+  floor: '#000508',
+  sheet: '#0a1525',
+  fish: '#8ab4e0',
+  // The Documents tile
+  leather: '#8a6a3a',
+} as const;
+
+// Ma (間): the deliberate gaps between elements, each double the last
+export const spacing = {
+  'ma-xs': '0.5rem',
+  'ma-sm': '1rem',
+  ma: '2rem',
+  'ma-lg': '4rem',
+  'ma-xl': '8rem',
+} as const;
+
+export const typeScale = {
+  caption: ['0.75rem', { lineHeight: '1rem' }],
+  body: ['0.875rem', { lineHeight: '1.625' }],
+  lead: ['1.25rem', { lineHeight: '1.75rem' }],
+  title: ['2.25rem', { lineHeight: '2.5rem' }],
+  display: ['3.75rem', { lineHeight: '1' }],
+} satisfies Record<string, [string, { lineHeight: string }]>;
+
+// Seconds, as framer-motion takes them
+export const durations = {
+  quick: 0.2,
+  base: 0.4,
+  slide: 0.5,
+  slow: 0.8,
+  ambient: 8,
+} as const;
+
+// ============================================
+// THEMES
+// Slides name roles, not colors: a surface to sit on, `fg` for ink
+// and `earth` for the warm ink of the craft slides. Each theme fills
+// the roles in, and CSS variables (see lib/theme) carry the active
+// one, so switching themes repaints without re-rendering.
+// ============================================
+
+export type ThemeName = 'dark' | 'light';
+
+export const SURFACES = [
+  'canvas',
+  'console',
+  'harbor',
+  'slate',
+  'lagoon',
+  'twilight',
+  'paper',
+  'clay',
+  'sand',
+] as const;
+
+export type Surface = typeof SURFACES[number];
+
+export type ThemeRole = 'fg' | 'earth' | Surface;
+
+export const themes: Record<ThemeName, Record<ThemeRole, string>> = {
+  dark: {
+    fg: '#ffffff',
+    earth: '#e6d2b4',
+    canvas: colors.night,
+    console: colors.console,
+    harbor: colors.harbor,
+    slate: chrome[900],
+    lagoon: '#0a1a1a',
+    twilight: chrome.desk,
+    paper: '#2a261e',
+    clay: '#241c14',
+    sand: '#1c180f',
+  },
+  light: {
+    fg: colors.ink,
+    earth: colors.bark,
+    canvas: colors.kraft,
+    console: '#ebe9ee',
+    harbor: '#e2e6e6',
+    slate: '#e6e4de',
+    lagoon: '#e6ebe2',
+    twilight: '#ebe6ec',
+    paper: colors.kraft,
+    clay: '#f5e6d3',
+    sand: colors.sand,
+  },
+};
+
+// Variables hold bare `r g b` channels so Tailwind can add alpha
+// (text-fg/60); wrap in rgb() to use one directly.
+export function themeVariable(role: ThemeRole) {
+  return `--theme-${role}`;
+}
+
+// '#rrggbb' -> 'r g b'
+export function hexChannels(hex: string) {
+  return [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16)).join(' ');
+}
+
+export function themeColor(role: ThemeRole) {
+  return `rgb(var(${themeVariable(role)}))`;
+}
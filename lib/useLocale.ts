@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { getMessages } from '@/content/locales';
+import {
+  ANNOTATIONS,
+  ANNOTATION_STORAGE_KEY,
+  DEFAULT_LOCALE,
+  LOCALES,
+  LOCALE_QUERY_PARAM,
+  LOCALE_STORAGE_KEY,
+  isAnnotation,
+  isLocale,
+  type Annotation,
+  type Locale,
+} from '@/lib/i18n';
+
+// ============================================
+// LANGUAGE SETTINGS
+// The deck's language and kanji annotation mode, shared by every
+// component that renders copy. Stored per browser; other windows
+// (the presenter view) follow through the storage event. <html lang>
+// tracks the locale so the browser picks Japanese font shaping.
+// ============================================
+
+export interface LanguageSettings {
+  locale: Locale;
+  annotation: Annotation;
+}
+
+let settings: LanguageSettings | null = null;
+const listeners = new Set<() => void>();
+
+function read<T>(key: string, guard: (value: unknown) => value is T, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return guard(stored) ? stored : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function readLocale(): Locale {
+  const query = new URLSearchParams(window.location.search).get(LOCALE_QUERY_PARAM);
+  return isLocale(query) ? query : read(LOCALE_STORAGE_KEY, isLocale, DEFAULT_LOCALE);
+}
+
+function getSettings() {
+  settings ??= { locale: readLocale(), annotation: read(ANNOTATION_STORAGE_KEY, isAnnotation, 'off') };
+  return settings;
+}
+
+function update(next: Partial<LanguageSettings>) {
+  settings = { ...getSettings(), ...next };
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, settings.locale);
+    localStorage.setItem(ANNOTATION_STORAGE_KEY, settings.annotation);
+  } catch {
+    // Private browsing: the setting lasts for this page only
+  }
+  document.documentElement.lang = settings.locale;
+  listeners.forEach((listener) => listener());
+}
+
+export function setLocale(locale: Locale) {
+  update({ locale });
+}
+
+// en -> ja -> en
+export function cycleLocale() {
+  const { locale } = getSettings();
+  update({ locale: LOCALES[(LOCALES.indexOf(locale) + 1) % LOCALES.length] });
+}
+
+// off -> furigana -> romaji -> off
+export function cycleAnnotation() {
+  const { annotation } = getSettings();
+  update({ annotation: ANNOTATIONS[(ANNOTATIONS.indexOf(annotation) + 1) % ANNOTATIONS.length] });
+}
+
+// One listener for the page, however many components use the hook
+let watching = false;
+
+function watchOtherWindows() {
+  if (watching) return;
+  watching = true;
+  window.addEventListener('storage', (e) => {
+    if (e.key !== LOCALE_STORAGE_KEY && e.key !== ANNOTATION_STORAGE_KEY) return;
+    settings = null;
+    document.documentElement.lang = getSettings().locale;
+    listeners.forEach((listener) => listener());
+  });
+}
+
+export function useLocale() {
+  // English until mounted, so the server render matches
+  const [current, setCurrent] = useState<LanguageSettings>({ locale: DEFAULT_LOCALE, annotation: 'off' });
+
+  useEffect(() => {
+    const sync = () => setCurrent(getSettings());
+    sync();
+    listeners.add(sync);
+    watchOtherWindows();
+    return () => void listeners.delete(sync);
+  }, []);
+
+  return { ...current, messages: getMessages(current.locale) };
+}
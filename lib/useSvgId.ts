@@ -0,0 +1,12 @@
+import { useId } from 'react';
+
+// ============================================
+// SVG IDS
+// Ids for filters, markers and gradients referenced as url(#…).
+// useId output contains colons, which break unquoted url(#…) refs,
+// so they are stripped; the prefix says what the id names.
+// ============================================
+
+export function useSvgId(prefix: string) {
+  return `${prefix}-${useId().replace(/:/g, '')}`;
+}
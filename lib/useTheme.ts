@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ThemeName } from '@/lib/tokens';
+import {
+  THEME_PREFERENCES,
+  THEME_STORAGE_KEY,
+  isThemePreference,
+  resolveTheme,
+  type ThemePreference,
+} from '@/lib/theme';
+
+// ============================================
+// THEME PREFERENCE
+// The deck's theme toggle. Keeps <html data-theme> in step with the
+// stored choice and the system setting, and follows changes made in
+// other windows (the presenter view) through the storage event.
+// ============================================
+
+const LIGHT_QUERY = '(prefers-color-scheme: light)';
+
+function readPreference(): ThemePreference {
+  try {
+    const stored = localStorage.getItem(THEME_STORAGE_KEY);
+    return isThemePreference(stored) ? stored : 'system';
+  } catch {
+    return 'system';
+  }
+}
+
+export function useTheme() {
+  const [preference, setPreferenceState] = useState<ThemePreference>('system');
+  const [systemTheme, setSystemTheme] = useState<ThemeName>('dark');
+  // The boot script already set data-theme; leave it alone until the
+  // stored preference has been read back
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    setPreferenceState(readPreference());
+    setLoaded(true);
+
+    const query = window.matchMedia(LIGHT_QUERY);
+    const updateSystem = () => setSystemTheme(query.matches ? 'light' : 'dark');
+    updateSystem();
+    query.addEventListener('change', updateSystem);
+
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === THEME_STORAGE_KEY) setPreferenceState(readPreference());
+    };
+    window.addEventListener('storage', onStorage);
+
+    return () => {
+      query.removeEventListener('change', updateSystem);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, []);
+
+  const theme = resolveTheme(preference, systemTheme);
+
+  useEffect(() => {
+    if (loaded) document.documentElement.dataset.theme = theme;
+  }, [loaded, theme]);
+
+  const setPreference = useCallback((next: ThemePreference) => {
+    setPreferenceState(next);
+    try {
+      if (next === 'system') localStorage.removeItem(THEME_STORAGE_KEY);
+      else localStorage.setItem(THEME_STORAGE_KEY, next);
+    } catch {
+      // Private browsing: the choice lasts for this page only
+    }
+  }, []);
+
+  // system -> light -> dark -> system
+  const cyclePreference = useCallback(() => {
+    setPreference(THEME_PREFERENCES[(THEME_PREFERENCES.indexOf(preference) + 1) % THEME_PREFERENCES.length]);
+  }, [preference, setPreference]);
+
+  return { preference, theme, setPreference, cyclePreference };
+}
@@ -0,0 +1,52 @@
+import type { MDXComponents } from 'mdx/types';
+import SideNote from '@/components/SideNote';
+import Fragment from '@/components/Fragment';
+import Kanji from '@/components/Kanji';
+import {
+  Headline,
+  SlideHeading,
+  Lead,
+  Muted,
+  Eyebrow,
+  Footnote,
+  AmbientPulse,
+  KanjiHeader,
+  PrincipleGrid,
+  PrincipleCard,
+  ShapeTrio,
+  ColorFields,
+  GridPattern,
+  KanjiGlyph,
+  ComparisonMatrix,
+} from '@/components/SlideBlocks';
+
+// ============================================
+// MDX COMPONENTS
+// Everything a slide under content/slides can use without an
+// import. Markdown headings map onto the deck's heading styles.
+// ============================================
+
+const slideComponents: MDXComponents = {
+  h1: Headline,
+  h2: SlideHeading,
+  SideNote,
+  Fragment,
+  Kanji,
+  Lead,
+  Muted,
+  Eyebrow,
+  Footnote,
+  AmbientPulse,
+  KanjiHeader,
+  PrincipleGrid,
+  PrincipleCard,
+  ShapeTrio,
+  ColorFields,
+  GridPattern,
+  KanjiGlyph,
+  ComparisonMatrix,
+};
+
+export function useMDXComponents(components: MDXComponents): MDXComponents {
+  return { ...slideComponents, ...components };
+}
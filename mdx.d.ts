@@ -0,0 +1,5 @@
+// remark-mdx-frontmatter exports each file's YAML frontmatter.
+// The shape is checked where it is read (lib/slides.ts).
+declare module '*.mdx' {
+  export const frontmatter: Record<string, unknown>;
+}
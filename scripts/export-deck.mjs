@@ -0,0 +1,109 @@
+// ============================================
+// DECK EXPORT
+//
+// Renders /export in headless Chromium and writes:
+//   exports/deck.pdf            one 16:9 page per slide
+//   exports/slides/NN-<id>.png  one image per slide
+//
+// Usage:
+//   npm run build
+//   npx playwright install chromium   (first run only)
+//   npm run export                    (starts `next start` itself)
+//   npm run export -- --url http://localhost:3000
+//   npm run export -- --theme light   (default: dark)
+//   npm run export -- --lang ja       (default: en)
+// ============================================
+
+import { spawn } from 'node:child_process';
+import { mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { chromium } from 'playwright';
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+const PORT = 3939;
+const OUT_DIR = path.resolve('exports');
+const NEXT_BIN = path.resolve('node_modules/next/dist/bin/next');
+
+function parseArgs(argv) {
+  const urlIndex = argv.indexOf('--url');
+  const themeIndex = argv.indexOf('--theme');
+  const langIndex = argv.indexOf('--lang');
+  return {
+    url: urlIndex >= 0 ? argv[urlIndex + 1] : null,
+    theme: themeIndex >= 0 ? argv[themeIndex + 1] : 'dark',
+    lang: langIndex >= 0 ? argv[langIndex + 1] : 'en',
+  };
+}
+
+async function waitForServer(url, timeoutMs = 60_000) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      const res = await fetch(url);
+      if (res.ok) return;
+    } catch {
+      // not up yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+  throw new Error(`Server at ${url} did not respond within ${timeoutMs / 1000}s`);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.theme !== 'light' && args.theme !== 'dark') {
+    throw new Error(`--theme must be light or dark, got "${args.theme}"`);
+  }
+  if (args.lang !== 'en' && args.lang !== 'ja') {
+    throw new Error(`--lang must be en or ja, got "${args.lang}"`);
+  }
+
+  let server = null;
+  let baseUrl = args.url;
+  if (!baseUrl) {
+    baseUrl = `http://localhost:${PORT}`;
+    server = spawn(process.execPath, [NEXT_BIN, 'start', '-p', String(PORT)], { stdio: 'inherit' });
+  }
+
+  const browser = await chromium.launch();
+  try {
+    await waitForServer(`${baseUrl}/export`);
+
+    // The deck follows prefers-color-scheme when nothing is stored
+    const page = await browser.newPage({ viewport: { width: WIDTH, height: HEIGHT }, colorScheme: args.theme });
+    // ?lang overrides the stored language for this page only
+    await page.goto(`${baseUrl}/export?lang=${args.lang}`, { waitUntil: 'networkidle' });
+    await page.waitForSelector('[data-export-ready="true"]');
+
+    await mkdir(path.join(OUT_DIR, 'slides'), { recursive: true });
+
+    const slides = page.locator('[data-slide-id]');
+    const count = await slides.count();
+    for (let i = 0; i < count; i++) {
+      const slide = slides.nth(i);
+      const id = await slide.getAttribute('data-slide-id');
+      const file = path.join(OUT_DIR, 'slides', `${String(i + 1).padStart(2, '0')}-${id}.png`);
+      await slide.screenshot({ path: file });
+      console.log(`  ✓ ${path.relative(process.cwd(), file)}`);
+    }
+
+    const pdfFile = path.join(OUT_DIR, 'deck.pdf');
+    await page.pdf({
+      path: pdfFile,
+      width: `${WIDTH}px`,
+      height: `${HEIGHT}px`,
+      printBackground: true,
+      margin: { top: 0, right: 0, bottom: 0, left: 0 },
+    });
+    console.log(`  ✓ ${path.relative(process.cwd(), pdfFile)} (${count} pages)`);
+  } finally {
+    await browser.close();
+    server?.kill();
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
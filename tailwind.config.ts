@@ -1,13 +1,39 @@
 import type { Config } from 'tailwindcss'
+import { colors, chrome, os2Colors, spacing, typeScale, durations, themeVariable, SURFACES, type ThemeRole } from './lib/tokens'
+
+const themed = (role: ThemeRole) => `rgb(var(${themeVariable(role)}) / <alpha-value>)`
 
 const config: Config = {
+  darkMode: ['selector', '[data-theme="dark"]'],
   content: [
     './pages/**/*.{js,ts,jsx,tsx,mdx}',
     './components/**/*.{js,ts,jsx,tsx,mdx}',
     './app/**/*.{js,ts,jsx,tsx,mdx}',
+    './content/**/*.mdx',
   ],
   theme: {
-    extend: {},
+    extend: {
+      colors: {
+        ...colors,
+        chrome,
+        os2: os2Colors,
+        fg: themed('fg'),
+        earth: themed('earth'),
+        surface: Object.fromEntries(SURFACES.map((surface) => [surface, themed(surface)])),
+        // Set per component from lib/timeOfDay
+        tod: Object.fromEntries(
+          ['accent', 'glow', 'sky', 'deep'].map((name) => [name, `rgb(var(--tod-${name}) / <alpha-value>)`])
+        ),
+      },
+      backgroundImage: {
+        'gradient-radial': 'radial-gradient(var(--tw-gradient-stops))',
+      },
+      spacing,
+      fontSize: typeScale,
+      transitionDuration: Object.fromEntries(
+        Object.entries(durations).map(([name, seconds]) => [name, `${seconds * 1000}ms`])
+      ),
+    },
   },
   plugins: [],
 }